@@ -1,5 +1,7 @@
 import express, { Request, Response, NextFunction } from "express";
 import jwt from "jsonwebtoken";
+import { isSessionActive } from "../src/auth/session";
+import { isTwoFactorRequired } from "../src/auth/twoFactor";
 
 declare global {
   namespace Express {
@@ -26,7 +28,7 @@ export function verifyJWT(req: Request, res: Response, next: NextFunction) {
     const token = authHeader.split(" ")[1];
     const jwtSecret = process.env.JWT_SECRET || "your_secret_key"; // Secret key from environment or default
 
-    jwt.verify(token, jwtSecret, (err, decoded) => {
+    jwt.verify(token, jwtSecret, async (err, decoded: any) => {
       if (err) {
         console.error("Error verifying token:", err);
         return res.status(401).json({
@@ -36,6 +38,24 @@ export function verifyJWT(req: Request, res: Response, next: NextFunction) {
         });
       }
 
+      try {
+        // Access tokens die with their session (logout, password reset, admin revoke)
+        if (!decoded.sessionId || !(await isSessionActive(decoded.sessionId))) {
+          return res.status(401).json({
+            code: "Error-01-0002",
+            status: "Error",
+            message: "Invalid or expired token.",
+          });
+        }
+      } catch (error) {
+        console.error("Error checking session:", error);
+        return res.status(500).json({
+          code: "Error-03-0001",
+          status: "Error",
+          message: "Internal server error.",
+        });
+      }
+
       req.user = decoded; // Attach decoded token (user data) to the request
       next(); // Proceed to the next route handler
     });
@@ -48,3 +68,117 @@ export function verifyJWT(req: Request, res: Response, next: NextFunction) {
     });
   }
 }
+
+export const ROLES = ["user", "instructor", "admin", "superadmin"] as const;
+export type Role = (typeof ROLES)[number];
+
+export type Permission =
+  | "profile:read"
+  | "profile:update"
+  | "course:read"
+  | "course:register"
+  | "course:manage"
+  | "attendance:check-in"
+  | "attendance:manage"
+  | "attendance:review"
+  | "attendance:approve"
+  | "carousel:manage"
+  | "user:read"
+  | "user:pii:read"
+  | "user:manage"
+  | "user:sessions:revoke"
+  | "user:2fa:reset"
+  | "order:read"
+  | "order:read:all"
+  | "certificate:read"
+  | "certificate:read:all"
+  | "job:manage";
+
+// Each role includes every permission of the role before it
+const USER_PERMISSIONS: Permission[] = [
+  "profile:read",
+  "profile:update",
+  "course:read",
+  "course:register",
+  "attendance:check-in",
+  "order:read",
+  "certificate:read",
+];
+const INSTRUCTOR_PERMISSIONS: Permission[] = [
+  ...USER_PERMISSIONS,
+  "attendance:manage",
+  "attendance:review",
+];
+const ADMIN_PERMISSIONS: Permission[] = [
+  ...INSTRUCTOR_PERMISSIONS,
+  "course:manage",
+  "attendance:approve",
+  "carousel:manage",
+  "user:read",
+  "user:pii:read",
+  "user:sessions:revoke",
+  "order:read:all",
+  "certificate:read:all",
+  "job:manage",
+];
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  user: USER_PERMISSIONS,
+  instructor: INSTRUCTOR_PERMISSIONS,
+  admin: ADMIN_PERMISSIONS,
+  superadmin: [...ADMIN_PERMISSIONS, "user:manage", "user:2fa:reset"],
+};
+
+export function hasPermission(role: string, permission: Permission) {
+  const permissions = ROLE_PERMISSIONS[role as Role];
+  return !!permissions && permissions.includes(permission);
+}
+
+function forbidden(res: Response) {
+  return res.status(403).json({
+    code: "Error-01-0010",
+    status: "Error",
+    message: "You do not have permission to perform this action.",
+  });
+}
+
+// Roles that must use 2FA get nothing until the session has passed it
+function twoFactorMissing(req: Request, res: Response) {
+  if (isTwoFactorRequired(req.user.role) && !req.user.twoFactor) {
+    res.status(403).json({
+      code: "Error-01-0020",
+      status: "Error",
+      message:
+        "Two-factor authentication is required for your account. Please set it up and log in again.",
+    });
+    return true;
+  }
+  return false;
+}
+
+// Middleware allowing only the given roles; must run after verifyJWT
+export function requireRole(...roles: Role[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user || !roles.includes(req.user.role)) {
+      return forbidden(res);
+    }
+    if (twoFactorMissing(req, res)) return;
+    next();
+  };
+}
+
+// Middleware requiring every given permission; must run after verifyJWT
+export function requirePermission(...permissions: Permission[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (
+      !req.user ||
+      !permissions.every((permission) =>
+        hasPermission(req.user.role, permission)
+      )
+    ) {
+      return forbidden(res);
+    }
+    if (twoFactorMissing(req, res)) return;
+    next();
+  };
+}
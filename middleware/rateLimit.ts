@@ -0,0 +1,179 @@
+import { Request, Response, NextFunction } from "express";
+import { RateLimit } from "../src/auth/model";
+
+export interface RateLimitEntry {
+  count: number;
+  resetAt: Date;
+}
+
+// Fixed-window counters shared by every limiter
+export interface RateLimitStore {
+  // Counts a hit, starting a new window when the previous one has passed
+  increment(key: string, windowMs: number): Promise<RateLimitEntry>;
+  get(key: string): Promise<RateLimitEntry | null>;
+  reset(key: string): Promise<void>;
+}
+
+// Counters kept in this process only. Fine for a single instance and tests.
+export class MemoryRateLimitStore implements RateLimitStore {
+  private entries = new Map<string, RateLimitEntry>();
+
+  constructor(sweepIntervalMs: number = 60 * 1000) {
+    setInterval(() => this.sweep(), sweepIntervalMs).unref();
+  }
+
+  private sweep(now: Date = new Date()) {
+    for (const [key, entry] of this.entries) {
+      if (entry.resetAt <= now) this.entries.delete(key);
+    }
+  }
+
+  async increment(key: string, windowMs: number) {
+    const now = new Date();
+    let entry = this.entries.get(key);
+    if (!entry || entry.resetAt <= now) {
+      entry = { count: 0, resetAt: new Date(now.getTime() + windowMs) };
+      this.entries.set(key, entry);
+    }
+    entry.count += 1;
+    return { ...entry };
+  }
+
+  async get(key: string) {
+    const entry = this.entries.get(key);
+    return entry && entry.resetAt > new Date() ? { ...entry } : null;
+  }
+
+  async reset(key: string) {
+    this.entries.delete(key);
+  }
+}
+
+// Counters in MongoDB, shared by every instance of the API
+export class MongoRateLimitStore implements RateLimitStore {
+  async increment(key: string, windowMs: number): Promise<RateLimitEntry> {
+    for (let attempt = 0; attempt < 3; attempt++) {
+      const now = new Date();
+      const current = await RateLimit.findOneAndUpdate(
+        { key, resetAt: { $gt: now } },
+        { $inc: { count: 1 } },
+        { new: true }
+      );
+      if (current) {
+        return { count: current.count, resetAt: current.resetAt };
+      }
+
+      try {
+        const started = await RateLimit.findOneAndUpdate(
+          { key, resetAt: { $lte: now } },
+          {
+            $set: { count: 1, resetAt: new Date(now.getTime() + windowMs) },
+          },
+          { new: true, upsert: true }
+        );
+        return { count: started.count, resetAt: started.resetAt };
+      } catch (error: any) {
+        // Another request opened the window first; count against it
+        if (error?.code !== 11000) throw error;
+      }
+    }
+    throw new Error(`Could not update rate limit counter ${key}`);
+  }
+
+  async get(key: string) {
+    const entry = await RateLimit.findOne({
+      key,
+      resetAt: { $gt: new Date() },
+    });
+    return entry ? { count: entry.count, resetAt: entry.resetAt } : null;
+  }
+
+  async reset(key: string) {
+    await RateLimit.deleteOne({ key });
+  }
+}
+
+const STORES: Record<string, () => RateLimitStore> = {
+  memory: () => new MemoryRateLimitStore(),
+  mongo: () => new MongoRateLimitStore(),
+};
+
+export function createRateLimitStore(
+  name: string = process.env.RATE_LIMIT_STORE || "mongo"
+) {
+  const factory = STORES[name];
+  if (!factory) {
+    throw new Error(`Unknown RATE_LIMIT_STORE: ${name}`);
+  }
+  return factory();
+}
+
+let defaultStore: RateLimitStore | undefined;
+
+export function rateLimitStore() {
+  defaultStore ??= createRateLimitStore();
+  return defaultStore;
+}
+
+// Returns the value a request is counted under, or undefined to skip it
+export type RateLimitKey = (req: Request) => string | undefined;
+
+export const byIp: RateLimitKey = (req) => req.ip;
+
+// Keys on an account identifier from the body, such as the login email
+export function byBodyField(field: string): RateLimitKey {
+  return (req) => {
+    const value = req.body?.[field];
+    return typeof value === "string" && value.trim()
+      ? value.trim().toLowerCase()
+      : undefined;
+  };
+}
+
+// Keys on the authenticated user; must run after verifyJWT
+export const byUser: RateLimitKey = (req) => req.user?.userId;
+
+export interface RateLimitOptions {
+  // Namespaces the counters so limiters never share them
+  name: string;
+  windowMs: number;
+  max: number;
+  key: RateLimitKey;
+  store?: RateLimitStore;
+}
+
+// Middleware allowing `max` requests per key in each window. Several can be
+// chained to limit a route by IP and by account at the same time. Counting
+// errors let the request through rather than locking everyone out.
+export function rateLimit(options: RateLimitOptions) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const value = options.key(req);
+    if (!value) return next();
+
+    let entry: RateLimitEntry;
+    try {
+      const store = options.store ?? rateLimitStore();
+      entry = await store.increment(
+        `${options.name}:${value}`,
+        options.windowMs
+      );
+    } catch (error) {
+      console.error("Error updating rate limit:", error);
+      return next();
+    }
+
+    if (entry.count > options.max) {
+      const retryAfter = Math.ceil(
+        (entry.resetAt.getTime() - Date.now()) / 1000
+      );
+      res.set("Retry-After", String(Math.max(retryAfter, 1)));
+      return res.status(429).json({
+        code: "Error-01-0018",
+        status: "Error",
+        message: "Too many requests. Please try again later.",
+      });
+    }
+
+    next();
+  };
+}
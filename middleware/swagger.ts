@@ -11,6 +11,51 @@ const options: swaggerJsdoc.Options = {
       version: "1.0.0",
       description: "API documentation for the application",
     },
+    components: {
+      // Answered by the validate() middleware (see validate.ts) before any
+      // handler runs
+      responses: {
+        InvalidRequest: {
+          description:
+            "Invalid request (Error-02-0019); data.errors lists every invalid field.",
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                properties: {
+                  code: { type: "string", example: "Error-02-0019" },
+                  status: { type: "string", example: "Error" },
+                  message: { type: "string" },
+                  data: {
+                    type: "object",
+                    properties: {
+                      errors: {
+                        type: "array",
+                        items: {
+                          type: "object",
+                          properties: {
+                            location: {
+                              type: "string",
+                              enum: ["params", "query", "body", "file"],
+                            },
+                            field: { type: "string", example: "email" },
+                            message: { type: "string", example: "is required" },
+                          },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        UnsupportedMediaType: {
+          description:
+            "Wrong Content-Type for the request body (Error-02-0020).",
+        },
+      },
+    },
   },
   apis: [path.resolve(__dirname, "../src/**/*.ts")],
 };
@@ -0,0 +1,404 @@
+import { Request, RequestHandler, Response, NextFunction } from "express";
+
+// Declarative request validation. Each route describes its params, query,
+// body and uploaded file with the schema builders below; validate() checks
+// them all, answers 415 for a wrong content type or 400 listing every
+// invalid field, and replaces req.params, req.query and req.body with the
+// parsed values (trimmed, coerced, unknown fields dropped). validated() pairs
+// the check with a handler that sees those values typed.
+
+export type RequestLocation = "params" | "query" | "body" | "file";
+
+export interface ValidationIssue {
+  location: RequestLocation;
+  field: string;
+  message: string;
+}
+
+interface ParseContext {
+  location: RequestLocation;
+  // Params, query strings and multipart fields only carry text, so numbers,
+  // booleans and lists arrive as strings there
+  coerce: boolean;
+  issues: ValidationIssue[];
+}
+
+export interface Schema<T, Optional extends boolean = boolean> {
+  readonly optional: Optional;
+  readonly nullable: boolean;
+  // Returns the parsed value, or records an issue and returns undefined
+  parse(value: unknown, path: string, ctx: ParseContext): T | undefined;
+}
+
+export type Infer<S> = S extends Schema<infer T, any> ? T : never;
+
+export type Shape = Record<string, Schema<any>>;
+
+type OptionalKeys<S extends Shape> = {
+  [K in keyof S]: S[K] extends Schema<any, true> ? K : never;
+}[keyof S];
+
+export type InferShape<S extends Shape> = {
+  [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]>;
+} & {
+  [K in OptionalKeys<S>]?: Infer<S[K]>;
+};
+
+function fail(ctx: ParseContext, path: string, message: string) {
+  ctx.issues.push({ location: ctx.location, field: path, message });
+  return undefined;
+}
+
+function required<T>(
+  parse: (value: unknown, path: string, ctx: ParseContext) => T | undefined
+): Schema<T, false> {
+  return { optional: false, nullable: false, parse };
+}
+
+// Missing values, and empty text where everything arrives as text
+function isMissing(value: unknown, ctx: ParseContext) {
+  return (
+    value === undefined ||
+    (typeof value === "string" && !value.trim() && ctx.coerce)
+  );
+}
+
+export function optional<T>(schema: Schema<T>): Schema<T, true> {
+  return { ...schema, optional: true };
+}
+
+// Every field of a shape made optional, e.g. for partial updates
+export function partial<S extends Shape>(shape: S) {
+  const result: Record<string, Schema<any, true>> = {};
+  for (const [key, schema] of Object.entries(shape)) {
+    result[key] = optional(schema);
+  }
+  return result as { [K in keyof S]: Schema<Infer<S[K]>, true> };
+}
+
+// Accepts an explicit null, e.g. to clear a date
+export function nullable<T, O extends boolean>(
+  schema: Schema<T, O>
+): Schema<T | null, O> {
+  return { ...schema, nullable: true };
+}
+
+export interface StringOptions {
+  min?: number;
+  max?: number;
+  pattern?: RegExp;
+  // Shown when the pattern does not match
+  format?: string;
+}
+
+// Trimmed text; empty text counts as missing
+export function string(options: StringOptions = {}) {
+  return required<string>((value, path, ctx) => {
+    if (typeof value !== "string") {
+      return fail(ctx, path, "must be a string");
+    }
+    const text = value.trim();
+    if (!text) return fail(ctx, path, "is required");
+    if (options.min !== undefined && text.length < options.min) {
+      return fail(ctx, path, `must be at least ${options.min} characters`);
+    }
+    if (options.max !== undefined && text.length > options.max) {
+      return fail(ctx, path, `must be at most ${options.max} characters`);
+    }
+    if (options.pattern && !options.pattern.test(text)) {
+      return fail(ctx, path, `must be ${options.format ?? "well formed"}`);
+    }
+    return text;
+  });
+}
+
+// Passwords and codes are kept exactly as sent, spaces included
+export function rawString(options: { max?: number } = {}) {
+  return required<string>((value, path, ctx) => {
+    if (typeof value !== "string" || !value) {
+      return fail(ctx, path, "must be a non-empty string");
+    }
+    if (options.max !== undefined && value.length > options.max) {
+      return fail(ctx, path, `must be at most ${options.max} characters`);
+    }
+    return value;
+  });
+}
+
+export interface NumberOptions {
+  min?: number;
+  max?: number;
+  integer?: boolean;
+}
+
+export function number(options: NumberOptions = {}) {
+  return required<number>((value, path, ctx) => {
+    const parsed =
+      ctx.coerce && typeof value === "string" ? Number(value) : value;
+    if (typeof parsed !== "number" || !Number.isFinite(parsed)) {
+      return fail(ctx, path, "must be a number");
+    }
+    if (options.integer && !Number.isInteger(parsed)) {
+      return fail(ctx, path, "must be a whole number");
+    }
+    if (options.min !== undefined && parsed < options.min) {
+      return fail(ctx, path, `must be at least ${options.min}`);
+    }
+    if (options.max !== undefined && parsed > options.max) {
+      return fail(ctx, path, `must be at most ${options.max}`);
+    }
+    return parsed;
+  });
+}
+
+export function boolean() {
+  return required<boolean>((value, path, ctx) => {
+    if (typeof value === "boolean") return value;
+    if (ctx.coerce && (value === "true" || value === "false")) {
+      return value === "true";
+    }
+    return fail(ctx, path, "must be true or false");
+  });
+}
+
+// ISO date strings (or timestamps in JSON)
+export function date() {
+  return required<Date>((value, path, ctx) => {
+    const parsed =
+      typeof value === "string" || typeof value === "number"
+        ? new Date(value)
+        : null;
+    if (!parsed || isNaN(parsed.getTime())) {
+      return fail(ctx, path, "must be a date");
+    }
+    return parsed;
+  });
+}
+
+export function oneOf<const T extends readonly string[]>(values: T) {
+  return required<T[number]>((value, path, ctx) => {
+    if (typeof value !== "string" || !values.includes(value)) {
+      return fail(ctx, path, `must be one of ${values.join(", ")}`);
+    }
+    return value;
+  });
+}
+
+// Anything at all; for fields a handler checks itself
+export function unknown() {
+  return required<unknown>((value) => value);
+}
+
+// Multipart forms send lists and objects as JSON text
+function fromJsonText(value: unknown, ctx: ParseContext) {
+  if (!ctx.coerce || typeof value !== "string") return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+export function array<T>(
+  item: Schema<T>,
+  options: { min?: number; max?: number } = {}
+) {
+  return required<T[]>((value, path, ctx) => {
+    const list = fromJsonText(value, ctx);
+    if (!Array.isArray(list)) return fail(ctx, path, "must be a list");
+    if (options.min !== undefined && list.length < options.min) {
+      return fail(ctx, path, `must have at least ${options.min} items`);
+    }
+    if (options.max !== undefined && list.length > options.max) {
+      return fail(ctx, path, `must have at most ${options.max} items`);
+    }
+
+    const before = ctx.issues.length;
+    const parsed = list.map((entry, index) =>
+      parseField(item, entry, `${path}[${index}]`, ctx)
+    );
+    return ctx.issues.length === before ? (parsed as T[]) : undefined;
+  });
+}
+
+// The page and limit query parameters of every paginated list
+export const PAGINATION_QUERY = {
+  page: optional(number({ integer: true, min: 1 })),
+  limit: optional(number({ integer: true, min: 1, max: 100 })),
+};
+
+export interface ObjectOptions {
+  // Report fields the shape does not list instead of dropping them
+  strict?: boolean;
+}
+
+export function object<S extends Shape>(shape: S, options: ObjectOptions = {}) {
+  return required<InferShape<S>>((value, path, ctx) =>
+    parseShape(shape, fromJsonText(value, ctx), path, ctx, options)
+  );
+}
+
+function parseField<T>(
+  schema: Schema<T>,
+  value: unknown,
+  path: string,
+  ctx: ParseContext
+) {
+  if (value === null && schema.nullable) return null;
+  if (value === null || isMissing(value, ctx)) {
+    return schema.optional ? undefined : fail(ctx, path, "is required");
+  }
+  return schema.parse(value, path, ctx);
+}
+
+function parseShape<S extends Shape>(
+  shape: S,
+  value: unknown,
+  path: string,
+  ctx: ParseContext,
+  options: ObjectOptions
+) {
+  if (value === undefined || value === null) value = {};
+  if (typeof value !== "object" || Array.isArray(value)) {
+    return fail(ctx, path || "(root)", "must be an object");
+  }
+
+  const input = value as Record<string, unknown>;
+  const output: Record<string, unknown> = {};
+  const before = ctx.issues.length;
+
+  for (const [key, schema] of Object.entries(shape)) {
+    const field = path ? `${path}.${key}` : key;
+    const parsed = parseField(schema, input[key], field, ctx);
+    if (parsed !== undefined) output[key] = parsed;
+  }
+
+  if (options.strict) {
+    for (const key of Object.keys(input)) {
+      if (!(key in shape)) {
+        fail(ctx, path ? `${path}.${key}` : key, "is not allowed");
+      }
+    }
+  }
+
+  return ctx.issues.length === before ? (output as InferShape<S>) : undefined;
+}
+
+export interface RequestSchema {
+  params?: Shape;
+  query?: Shape;
+  body?: Shape;
+  // Body format; defaults to json when there is a body schema
+  contentType?: "json" | "multipart";
+  // Reject body fields the schema does not list
+  strict?: boolean;
+  // The multer field of a single uploaded file
+  file?: { field: string; required?: boolean };
+}
+
+type InferLocation<S, Fallback> = S extends Shape ? InferShape<S> : Fallback;
+
+export type ValidatedRequest<S extends RequestSchema> = Request<
+  InferLocation<S["params"], Record<string, string>>,
+  any,
+  InferLocation<S["body"], any>,
+  InferLocation<S["query"], any>
+>;
+
+export type ValidatedHandler<S extends RequestSchema> = (
+  req: ValidatedRequest<S>,
+  res: Response,
+  next: NextFunction
+) => unknown;
+
+// The 400 response of validate(), also used by handlers for rules a schema
+// cannot express, such as one of two fields being required
+export function invalidRequest(res: Response, issues: ValidationIssue[]) {
+  return res.status(400).json({
+    code: "Error-02-0019",
+    status: "Error",
+    message: "Invalid request. Please check the listed fields.",
+    data: { errors: issues },
+  });
+}
+
+const CONTENT_TYPES = {
+  json: "application/json",
+  multipart: "multipart/form-data",
+};
+
+function hasRequiredField(shape: Shape = {}) {
+  return Object.values(shape).some((schema) => !schema.optional);
+}
+
+// Middleware checking a request against its schema. Runs after
+// authentication, and after multer on upload routes.
+export function validate(schema: RequestSchema) {
+  const contentType =
+    schema.contentType ?? (schema.body || schema.file ? "json" : undefined);
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (contentType) {
+      // null when the request has no body at all, which is fine as long as
+      // nothing in it is required
+      const matches = req.is(CONTENT_TYPES[contentType]);
+      if (
+        matches === false ||
+        (matches === null &&
+          (hasRequiredField(schema.body) || schema.file?.required))
+      ) {
+        return res.status(415).json({
+          code: "Error-02-0020",
+          status: "Error",
+          message: `Content-Type must be ${CONTENT_TYPES[contentType]}.`,
+        });
+      }
+    }
+
+    const issues: ValidationIssue[] = [];
+    const parsed: Partial<Record<"params" | "query" | "body", unknown>> = {};
+
+    for (const location of ["params", "query", "body"] as const) {
+      const shape = schema[location];
+      if (!shape) continue;
+      parsed[location] = parseShape(
+        shape,
+        req[location],
+        "",
+        {
+          location,
+          coerce: location !== "body" || contentType === "multipart",
+          issues,
+        },
+        { strict: location === "body" && schema.strict }
+      );
+    }
+
+    if (schema.file?.required && !req.file) {
+      issues.push({
+        location: "file",
+        field: schema.file.field,
+        message: "is required",
+      });
+    }
+
+    if (issues.length) return invalidRequest(res, issues);
+
+    if (parsed.params) req.params = parsed.params as Request["params"];
+    if (parsed.query) req.query = parsed.query as Request["query"];
+    if (parsed.body) req.body = parsed.body;
+    next();
+  };
+}
+
+// The validate() middleware followed by the route handler, which receives the
+// parsed params, query and body typed from the schema:
+//
+//   router.post("/path", verifyJWT, validated({ body: { name: string() } },
+//     async (req, res) => { req.body.name; /* string */ }));
+export function validated<S extends RequestSchema>(
+  schema: S,
+  handler: ValidatedHandler<S>
+): RequestHandler[] {
+  return [validate(schema), handler as unknown as RequestHandler];
+}
@@ -0,0 +1,51 @@
+import mongoose from "mongoose";
+import * as dotenv from "dotenv";
+import { User } from "../src/users/model";
+import { EmailVerification } from "../src/auth/model";
+
+dotenv.config();
+
+// Marks accounts created before email verification existed as verified, as
+// of their creation, so they can keep registering for courses. Accounts
+// created after the first verification link was sent are never marked, so
+// the script is safe to run repeatedly.
+// Usage: npm run verification:migrate [-- --dry-run]
+
+const dryRun = process.argv.includes("--dry-run");
+
+async function legacyFilter() {
+  const first = await EmailVerification.findOne().sort({ createdAt: 1 });
+  return {
+    emailVerifiedAt: null,
+    ...(first && {
+      _id: {
+        $lt: mongoose.Types.ObjectId.createFromTime(
+          Math.floor(first.createdAt.getTime() / 1000)
+        ),
+      },
+    }),
+  };
+}
+
+async function main() {
+  await mongoose.connect(process.env.MONGODB_URI!);
+  const legacyUsers = await legacyFilter();
+
+  if (dryRun) {
+    const legacy = await User.countDocuments(legacyUsers);
+    console.log(`Would mark ${legacy} legacy user(s) verified`);
+  } else {
+    // The creation time is read from the ObjectId
+    const legacy = await User.updateMany(legacyUsers, [
+      { $set: { emailVerifiedAt: { $toDate: "$_id" } } },
+    ]);
+    console.log(`Marked ${legacy.modifiedCount} legacy user(s) verified`);
+  }
+
+  await mongoose.disconnect();
+}
+
+main().catch((error) => {
+  console.error("Error migrating email verification:", error);
+  process.exit(1);
+});
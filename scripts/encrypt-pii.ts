@@ -0,0 +1,170 @@
+import mongoose from "mongoose";
+import * as dotenv from "dotenv";
+import { User } from "../src/users/model";
+import { Course } from "../src/course/model";
+import {
+  currentKeyId,
+  decryptPii,
+  encryptionKeyId,
+  encryptPii,
+  idcardIndex,
+} from "../src/users/pii";
+
+dotenv.config();
+
+// Encrypts ID card numbers still stored in plaintext, re-encrypts those under
+// an older key and fills in missing blind indexes, for users and for the
+// registrant copies kept on courses. Users whose numbers only differ in
+// formatting are listed and get no blind index. Safe to run repeatedly; run
+// it after putting a new key first in PII_ENCRYPTION_KEYS to rotate keys, and
+// only then drop the old key.
+// Usage: npm run pii:migrate [-- --dry-run]
+
+const dryRun = process.argv.includes("--dry-run");
+
+function needsUpdate(idcard: unknown) {
+  return (
+    typeof idcard === "string" && encryptionKeyId(idcard) !== currentKeyId()
+  );
+}
+
+// Users whose ID card numbers are the same once normalized, e.g. entered once
+// with dashes and once without. They would collide on the unique idcardHash
+// index, so they are reported and get no blind index until someone merges
+// them; their numbers are still encrypted.
+async function findDuplicateIdcards() {
+  const usersByIndex = new Map<string, string[]>();
+  const cursor = User.collection.find(
+    { idcard: { $type: "string" } },
+    { projection: { userId: 1, idcard: 1 } }
+  );
+
+  for await (const user of cursor) {
+    const index = idcardIndex(decryptPii(user.idcard));
+    usersByIndex.set(index, [...(usersByIndex.get(index) ?? []), user.userId]);
+  }
+
+  return [...usersByIndex.values()].filter((userIds) => userIds.length > 1);
+}
+
+async function migrateUsers(skipped: Set<string>) {
+  let updated = 0;
+  const cursor = User.collection.find(
+    {},
+    { projection: { userId: 1, idcard: 1, idcardHash: 1 } }
+  );
+
+  for await (const user of cursor) {
+    if (typeof user.idcard !== "string") continue;
+    const duplicate = skipped.has(user.userId);
+    if (!needsUpdate(user.idcard) && (user.idcardHash || duplicate)) continue;
+
+    const idcard = decryptPii(user.idcard);
+    if (dryRun) {
+      updated += 1;
+      continue;
+    }
+
+    try {
+      await User.collection.updateOne(
+        { _id: user._id, idcard: user.idcard },
+        {
+          $set: {
+            idcard: needsUpdate(user.idcard) ? encryptPii(idcard) : user.idcard,
+            ...(!duplicate && { idcardHash: idcardIndex(idcard) }),
+          },
+        }
+      );
+      updated += 1;
+    } catch (error: any) {
+      // A user registered meanwhile with the same number
+      if (error?.code !== 11000) throw error;
+      skipped.add(user.userId);
+    }
+  }
+  return updated;
+}
+
+async function migrateCourses() {
+  let updated = 0;
+  const cursor = Course.collection.find(
+    { "registeredUsers.idcard": { $exists: true } },
+    { projection: { registeredUsers: 1 } }
+  );
+
+  for await (const course of cursor) {
+    for (const registrant of course.registeredUsers ?? []) {
+      if (!needsUpdate(registrant.idcard)) continue;
+      updated += 1;
+      if (dryRun) continue;
+
+      // Positional update so registrations made meanwhile are left alone
+      await Course.collection.updateOne(
+        {
+          _id: course._id,
+          registeredUsers: {
+            $elemMatch: {
+              userId: registrant.userId,
+              idcard: registrant.idcard,
+            },
+          },
+        },
+        {
+          $set: {
+            "registeredUsers.$.idcard": encryptPii(
+              decryptPii(registrant.idcard)
+            ),
+          },
+        }
+      );
+    }
+  }
+  return updated;
+}
+
+async function main() {
+  await mongoose.connect(process.env.MONGODB_URI!);
+
+  const duplicates = await findDuplicateIdcards();
+  const skipped = new Set(duplicates.flat());
+
+  const users = await migrateUsers(skipped);
+  const registrants = await migrateCourses();
+  console.log(
+    `${
+      dryRun ? "Would update" : "Updated"
+    } ${users} user(s) and ${registrants} course registrant(s) to key ${currentKeyId()}`
+  );
+
+  if (skipped.size) {
+    console.error(
+      `Left ${skipped.size} user(s) sharing an ID card number with another account without a blind index; merge or correct them and run again:`
+    );
+    for (const userIds of duplicates) {
+      console.error(`  ${userIds.join(", ")}`);
+    }
+    const raced = [...skipped].filter(
+      (userId) => !duplicates.some((userIds) => userIds.includes(userId))
+    );
+    if (raced.length) {
+      console.error(`  ${raced.join(", ")} (registered during the run)`);
+    }
+    process.exitCode = 1;
+  }
+
+  if (!dryRun) {
+    // The unique index on the ciphertext is replaced by the one on idcardHash
+    if (await User.collection.indexExists("idcard_1")) {
+      await User.collection.dropIndex("idcard_1");
+      console.log("Dropped index idcard_1");
+    }
+    await User.createIndexes();
+  }
+
+  await mongoose.disconnect();
+}
+
+main().catch((error) => {
+  console.error("Error migrating PII:", error);
+  process.exit(1);
+});
@@ -0,0 +1,88 @@
+import mongoose from "mongoose";
+import * as dotenv from "dotenv";
+import { User } from "../src/users/model";
+import { parsePhoneNumber } from "../src/users/validation";
+
+dotenv.config();
+
+// Rewrites phone numbers stored before validation.ts into E.164, so they match
+// the duplicate checks. Numbers that cannot be parsed, and numbers shared by
+// several accounts once normalized, are listed and left unchanged. Safe to run
+// repeatedly.
+// Usage: npm run phone:migrate [-- --dry-run]
+
+const dryRun = process.argv.includes("--dry-run");
+
+async function main() {
+  await mongoose.connect(process.env.MONGODB_URI!);
+
+  const usersByNumber = new Map<string, string[]>();
+  const pending: { userId: string; from: string; to: string }[] = [];
+  const invalid: { userId: string; phonenumber: string }[] = [];
+
+  const cursor = User.collection.find(
+    {},
+    { projection: { userId: 1, phonenumber: 1 } }
+  );
+  for await (const user of cursor) {
+    const normalized = parsePhoneNumber(user.phonenumber);
+    if (!normalized) {
+      invalid.push({ userId: user.userId, phonenumber: user.phonenumber });
+      continue;
+    }
+    usersByNumber.set(normalized, [
+      ...(usersByNumber.get(normalized) ?? []),
+      user.userId,
+    ]);
+    if (normalized !== user.phonenumber) {
+      pending.push({
+        userId: user.userId,
+        from: user.phonenumber,
+        to: normalized,
+      });
+    }
+  }
+
+  const duplicates = [...usersByNumber.entries()].filter(
+    ([, userIds]) => userIds.length > 1
+  );
+  const duplicated = new Set(duplicates.flatMap(([, userIds]) => userIds));
+
+  let updated = 0;
+  for (const { userId, from, to } of pending) {
+    if (duplicated.has(userId)) continue;
+    updated += 1;
+    if (dryRun) continue;
+
+    // Left alone if the user changed their number meanwhile
+    await User.collection.updateOne(
+      { userId, phonenumber: from },
+      { $set: { phonenumber: to } }
+    );
+  }
+
+  console.log(`${dryRun ? "Would update" : "Updated"} ${updated} user(s)`);
+
+  if (invalid.length) {
+    console.error(`${invalid.length} user(s) have an invalid phone number:`);
+    for (const { userId, phonenumber } of invalid) {
+      console.error(`  ${userId}: ${JSON.stringify(phonenumber)}`);
+    }
+  }
+  if (duplicates.length) {
+    console.error("Phone numbers shared by several users, left unchanged:");
+    for (const [phonenumber, userIds] of duplicates) {
+      console.error(`  ${phonenumber}: ${userIds.join(", ")}`);
+    }
+  }
+  if (invalid.length || duplicates.length) {
+    process.exitCode = 1;
+  }
+
+  await mongoose.disconnect();
+}
+
+main().catch((error) => {
+  console.error("Error normalizing phone numbers:", error);
+  process.exit(1);
+});
@@ -0,0 +1,70 @@
+import axios from "axios";
+import * as dotenv from "dotenv";
+
+dotenv.config();
+
+// Posts a signed fake checkout.session.completed event to a running server,
+// so the webhook can be exercised without the Stripe CLI.
+// Usage: npm run webhook:stub -- <userId> <courseId> [amountInTHB]
+
+const stripe = require("stripe")(process.env.STRIPE_API_KEY);
+const STRIPE_WEBHOOK_SECRET = process.env.STRIPE_WEBHOOK_SECRET;
+const WEBHOOK_URL =
+  process.env.WEBHOOK_URL ||
+  `http://localhost:${process.env.PORT || 50100}/api/webhook`;
+
+async function main() {
+  const [userId, courseId, amount = "0"] = process.argv.slice(2);
+
+  if (!userId || !courseId || !STRIPE_WEBHOOK_SECRET) {
+    console.error(
+      "Usage: npm run webhook:stub -- <userId> <courseId> [amountInTHB] (STRIPE_WEBHOOK_SECRET must be set)"
+    );
+    process.exit(1);
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const sessionId = `cs_test_stub_${Date.now()}`;
+  const event = {
+    id: `evt_stub_${Date.now()}`,
+    object: "event",
+    type: "checkout.session.completed",
+    created: now,
+    data: {
+      object: {
+        id: sessionId,
+        object: "checkout.session",
+        mode: "payment",
+        payment_status: "paid",
+        status: "complete",
+        payment_intent: `pi_stub_${Date.now()}`,
+        amount_total: Number(amount) * 100,
+        currency: "thb",
+        created: now,
+        metadata: { userId, courseId },
+      },
+    },
+  };
+
+  const payload = JSON.stringify(event);
+  const signature = stripe.webhooks.generateTestHeaderString({
+    payload,
+    secret: STRIPE_WEBHOOK_SECRET,
+  });
+
+  const response = await axios.post(WEBHOOK_URL, payload, {
+    headers: {
+      "Content-Type": "application/json",
+      "Stripe-Signature": signature,
+    },
+    validateStatus: () => true,
+  });
+
+  console.log(`Sent ${event.type} for ${sessionId}`);
+  console.log(response.status, response.data);
+}
+
+main().catch((error) => {
+  console.error("Error sending stub event:", error);
+  process.exit(1);
+});
@@ -10,17 +10,42 @@ import { user } from "./users/route";
 import { checkout } from "./checkout/route";
 import { useSwagger } from "../middleware/swagger";
 import { carousel } from "./carousel/route";
+import { order } from "./orders/route";
+import { attendance } from "./attendance/route";
+import { certificate } from "./certificates/route";
+import { job } from "./jobs/route";
+import { JOBS } from "./jobs/jobs";
+import { startJobRunner } from "./jobs/runner";
+import { checkPiiKeys } from "./users/pii";
+import { checkCertificateSecret } from "./certificates/certificate";
+import { checkQrSecret } from "./attendance/checkin";
 
 dotenv.config();
+checkPiiKeys();
+checkCertificateSecret();
+checkQrSecret();
 
 const app = express();
 
+// Behind a load balancer, rate limits need the client IP from
+// X-Forwarded-For. Set TRUST_PROXY to the number of proxy hops (or to the
+// proxy addresses).
+if (process.env.TRUST_PROXY) {
+  const trustProxy = process.env.TRUST_PROXY;
+  app.set(
+    "trust proxy",
+    /^\d+$/.test(trustProxy) ? Number(trustProxy) : trustProxy
+  );
+}
+
 const corsOptions = {
   origin: "http://localhost:3000",
   credentials: true,
 };
 
 app.use(cors(corsOptions));
+// Stripe signs the exact payload, so the webhook must not be JSON-parsed
+app.use("/api/webhook", express.raw({ type: "application/json" }));
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 app.use(helmet());
@@ -30,7 +55,13 @@ app.use(express.static("public"));
 // Connect to MongoDB
 mongoose
   .connect(process.env.MONGODB_URI!)
-  .then(() => console.log("Successfully connected to MongoDB"))
+  .then(() => {
+    console.log("Successfully connected to MongoDB");
+    // Set JOBS_ENABLED=false on instances that should not run scheduled jobs
+    if (process.env.JOBS_ENABLED !== "false") {
+      startJobRunner(JOBS);
+    }
+  })
   .catch((err) => console.error("Error connecting to MongoDB:", err));
 
 // Routes
@@ -39,6 +70,10 @@ app.use("/api/v1", user);
 app.use("/api/v1", auth);
 app.use("/api/", checkout);
 app.use("/api/v1", carousel);
+app.use("/api/v1", order);
+app.use("/api/v1", attendance);
+app.use("/api/v1", certificate);
+app.use("/api/v1", job);
 
 useSwagger(app);
 
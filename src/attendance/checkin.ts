@@ -0,0 +1,202 @@
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import { v4 as uuidv4 } from "uuid";
+import { Course } from "../course/model";
+import { AttendanceEvent } from "./model";
+import { generateTotp, totpExpiresIn, verifyTotp } from "../auth/totp";
+import { attendanceSummary } from "../course/sessions";
+import { rateLimitStore } from "../../middleware/rateLimit";
+
+type CourseDocument = InstanceType<typeof Course>;
+
+// Check-in codes rotate every minute; the previous one is still accepted
+export const CODE_STEP_SECONDS = 60;
+export const CODE_DIGITS = 6;
+
+const QR_TOKEN_TTL = "5m";
+const QR_TOKEN_AUDIENCE = "attendance-qr";
+
+const MAX_FAILED_ATTEMPTS = 5;
+const FAILED_ATTEMPT_WINDOW_MS = 10 * 60 * 1000;
+
+// Each course gets its own secret the first time check-in is opened
+async function attendanceSecretFor(course: CourseDocument) {
+  const existing = await Course.findOne({ courseId: course.courseId }).select(
+    "+attendanceSecret"
+  );
+  if (existing?.attendanceSecret) {
+    return Buffer.from(existing.attendanceSecret, "hex");
+  }
+
+  const secret = crypto.randomBytes(20).toString("hex");
+  // Only set it if no concurrent request got there first
+  await Course.updateOne(
+    { courseId: course.courseId, attendanceSecret: { $exists: false } },
+    { $set: { attendanceSecret: secret } }
+  );
+  const saved = await Course.findOne({ courseId: course.courseId }).select(
+    "+attendanceSecret"
+  );
+  return Buffer.from(saved!.attendanceSecret!, "hex");
+}
+
+// Every session has its own code sequence, so a code from one day's session
+// cannot be used to check in to another
+async function sessionSecretFor(course: CourseDocument, sessionId: string) {
+  const courseSecret = await attendanceSecretFor(course);
+  return crypto.createHmac("sha1", courseSecret).update(sessionId).digest();
+}
+
+export async function currentCheckInCode(
+  course: CourseDocument,
+  sessionId: string
+) {
+  const secret = await sessionSecretFor(course, sessionId);
+  const now = Date.now();
+
+  return {
+    code: generateTotp(secret, now, CODE_STEP_SECONDS, CODE_DIGITS),
+    expiresAt: new Date(now + totpExpiresIn(now, CODE_STEP_SECONDS)),
+  };
+}
+
+export async function isValidCheckInCode(
+  course: CourseDocument,
+  sessionId: string,
+  code: string
+) {
+  const secret = await sessionSecretFor(course, sessionId);
+  return verifyTotp(
+    secret,
+    String(code),
+    Date.now(),
+    CODE_STEP_SECONDS,
+    CODE_DIGITS
+  );
+}
+
+// Failed code entries per user, counted in the shared rate limit store so
+// every instance sees them and they expire with the window
+function failuresKey(key: string) {
+  return `check-in-failures:${key}`;
+}
+
+export async function isCheckInRateLimited(key: string) {
+  const failures = await rateLimitStore().get(failuresKey(key));
+  return !!failures && failures.count >= MAX_FAILED_ATTEMPTS;
+}
+
+export async function recordFailedCheckIn(key: string) {
+  await rateLimitStore().increment(failuresKey(key), FAILED_ATTEMPT_WINDOW_MS);
+}
+
+export async function clearFailedCheckIns(key: string) {
+  await rateLimitStore().reset(failuresKey(key));
+}
+
+// A dedicated secret only: under JWT_SECRET a check-in token would be
+// signed with the same key as the login tokens
+function qrSecret() {
+  const secret = process.env.ATTENDANCE_QR_SECRET;
+  if (!secret) {
+    throw new Error("ATTENDANCE_QR_SECRET is not set");
+  }
+  return secret;
+}
+
+// Stops the app at startup when the secret is missing, instead of failing
+// the first check-in
+export function checkQrSecret() {
+  qrSecret();
+}
+
+// Short-lived token a registrant shows as a QR code for the instructor to scan
+export function signQrToken(
+  courseId: string,
+  sessionId: string,
+  userId: string
+) {
+  return jwt.sign({ courseId, sessionId, userId }, qrSecret(), {
+    expiresIn: QR_TOKEN_TTL,
+    audience: QR_TOKEN_AUDIENCE,
+  });
+}
+
+export function verifyQrToken(token: string) {
+  return jwt.verify(token, qrSecret(), {
+    audience: QR_TOKEN_AUDIENCE,
+  }) as jwt.JwtPayload & {
+    courseId: string;
+    sessionId: string;
+    userId: string;
+  };
+}
+
+export function isRegistered(course: CourseDocument, userId: string) {
+  return course.registeredUsers.some(
+    (registeredUser: { userId: string }) => registeredUser.userId === userId
+  );
+}
+
+// Attendance of one user across all sessions of a course
+export async function attendanceFor(course: CourseDocument, userId: string) {
+  const sessionIds = await AttendanceEvent.distinct("sessionId", {
+    courseId: course.courseId,
+    userId,
+  });
+  return { sessionIds, ...attendanceSummary(course, sessionIds) };
+}
+
+// Records a check-in to one session. A user is checked in at most once per
+// session, and is queued for approval once they have attended enough of the
+// course to complete it.
+export async function recordAttendance(
+  course: CourseDocument,
+  sessionId: string,
+  userId: string,
+  method: "code" | "qr",
+  details: { recordedBy?: string; ip?: string } = {}
+) {
+  try {
+    await AttendanceEvent.create({
+      eventId: uuidv4(),
+      courseId: course.courseId,
+      sessionId,
+      userId,
+      method,
+      ...details,
+    });
+  } catch (error: any) {
+    if (error?.code === 11000) {
+      return "already-recorded";
+    }
+    throw error;
+  }
+
+  const { completed } = await attendanceFor(course, userId);
+  if (!completed) {
+    return "recorded";
+  }
+
+  const registrant = course.registeredUsers.find(
+    (registeredUser: { userId: string }) => registeredUser.userId === userId
+  );
+
+  await Course.updateOne(
+    {
+      courseId: course.courseId,
+      "waitingForApproveList.userId": { $ne: userId },
+    },
+    {
+      $push: {
+        waitingForApproveList: {
+          userId,
+          email: registrant?.email,
+          timestamp: new Date().toISOString(),
+        },
+      },
+    }
+  );
+
+  return "completed";
+}
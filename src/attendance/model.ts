@@ -0,0 +1,25 @@
+import mongoose from "mongoose";
+
+const attendanceEventSchema = new mongoose.Schema(
+  {
+    eventId: { type: String, required: true, unique: true },
+    courseId: { type: String, required: true, index: true },
+    // "main" for courses without a session list
+    sessionId: { type: String, required: true, default: "main" },
+    userId: { type: String, required: true },
+    method: { type: String, enum: ["code", "qr"], required: true },
+    recordedBy: { type: String }, // instructor who scanned a QR token
+    ip: { type: String },
+  },
+  { timestamps: true }
+);
+
+attendanceEventSchema.index(
+  { courseId: 1, sessionId: 1, userId: 1 },
+  { unique: true }
+);
+
+export const AttendanceEvent = mongoose.model(
+  "attendanceEvents",
+  attendanceEventSchema
+);
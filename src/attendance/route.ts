@@ -0,0 +1,648 @@
+import express from "express";
+import { Course } from "../course/model";
+import { AttendanceEvent } from "./model";
+import { getCourseStatus } from "../course/lifecycle";
+import {
+  attendanceSummary,
+  findCurrentSession,
+  getCourseSessions,
+} from "../course/sessions";
+import {
+  clearFailedCheckIns,
+  currentCheckInCode,
+  isCheckInRateLimited,
+  isRegistered,
+  isValidCheckInCode,
+  recordAttendance,
+  recordFailedCheckIn,
+  signQrToken,
+  verifyQrToken,
+} from "./checkin";
+import { requirePermission, verifyJWT } from "../../middleware/middleware";
+import { byUser, rateLimit } from "../../middleware/rateLimit";
+import { string, validated } from "../../middleware/validate";
+
+export const attendance = express.Router();
+
+/**
+ * @swagger
+ * /api/v1/generateCode:
+ *   post:
+ *     summary: Get the current check-in code of the running course session
+ *     description: >
+ *       Requires the `attendance:manage` permission. Codes are derived from a
+ *       per-session secret and rotate every minute, so the instructor's screen
+ *       should call this again once expiresAt has passed.
+ *     tags: [Attendance]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               courseId:
+ *                 type: string
+ *                 example: "1234abcd"
+ *     responses:
+ *       200:
+ *         description: Current code retrieved successfully.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: "Success-01-0002"
+ *                 status:
+ *                   type: string
+ *                   example: "Success"
+ *                 message:
+ *                   type: string
+ *                   example: "Check-in code retrieved successfully."
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     sessionId:
+ *                       type: string
+ *                     code:
+ *                       type: string
+ *                       example: "104578"
+ *                     expiresAt:
+ *                       type: string
+ *                       format: date-time
+ *       400:
+ *         description: >
+ *           Invalid request fields (Error-02-0019) or no session is running.
+ *       415:
+ *         $ref: '#/components/responses/UnsupportedMediaType'
+ *       403:
+ *         description: Missing the required permission.
+ *       404:
+ *         description: Course not found.
+ *       500:
+ *         description: Internal server error.
+ */
+
+attendance.post(
+  "/generateCode",
+  verifyJWT,
+  requirePermission("attendance:manage"),
+  validated({ body: { courseId: string() } }, async (req, res) => {
+    const { courseId } = req.body;
+
+    try {
+      const course = await Course.findOne({ courseId });
+      if (!course || getCourseStatus(course) === "cancelled") {
+        return res.status(404).json({
+          code: "Error-01-0003",
+          status: "Error",
+          message: "Course not found",
+        });
+      }
+
+      const session = findCurrentSession(course);
+      if (!session) {
+        return res.status(400).json({
+          code: "Error-01-0004",
+          status: "Error",
+          message: "Check-in is only open while a course session is running.",
+        });
+      }
+
+      res.status(200).json({
+        code: "Success-01-0002",
+        status: "Success",
+        message: "Check-in code retrieved successfully.",
+        data: {
+          sessionId: session.sessionId,
+          ...(await currentCheckInCode(course, session.sessionId)),
+        },
+      });
+    } catch (error) {
+      console.error("Error generating code:", error);
+      res.status(500).json({
+        code: "Error-01-0002",
+        status: "Error",
+        message: "An error occurred while generating the code.",
+      });
+    }
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/validateCode:
+ *   post:
+ *     summary: Check in to the running course session with its current code
+ *     description: >
+ *       Requires the `attendance:check-in` permission. After 5 wrong codes
+ *       in 10 minutes the user is blocked from trying again for a while. The
+ *       user is queued for approval once they have attended the share of the
+ *       course hours it requires (80% unless the course sets otherwise).
+ *     tags: [Attendance]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               courseId:
+ *                 type: string
+ *                 example: "1234abcd"
+ *               enteredCode:
+ *                 type: string
+ *                 example: "104578"
+ *     responses:
+ *       200:
+ *         description: >
+ *           Check-in recorded. Success-02-0001 when the user now waits for
+ *           admin approval, Success-02-0008 when more sessions are needed.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: "Success-02-0001"
+ *                 status:
+ *                   type: string
+ *                   example: "Success"
+ *                 message:
+ *                   type: string
+ *                   example: "Code is valid waiting admin to approve."
+ *       400:
+ *         description: Invalid request fields (Error-02-0019), invalid code, no session running, already checked in to this session, or user not registered for the course.
+ *       415:
+ *         $ref: '#/components/responses/UnsupportedMediaType'
+ *       403:
+ *         description: Missing the required permission.
+ *       404:
+ *         description: Course not found.
+ *       429:
+ *         description: Too many wrong codes, or too many attempts overall.
+ *       500:
+ *         description: Internal server error.
+ */
+
+attendance.post(
+  "/validateCode",
+  verifyJWT,
+  requirePermission("attendance:check-in"),
+  // Per user only: a whole class usually checks in from one network
+  rateLimit({
+    name: "check-in-user",
+    windowMs: 10 * 60 * 1000,
+    max: 30,
+    key: byUser,
+  }),
+  validated(
+    { body: { courseId: string(), enteredCode: string() } },
+    async (req, res) => {
+      const { courseId, enteredCode } = req.body;
+      const user = req.user;
+
+      try {
+        if (await isCheckInRateLimited(user.userId)) {
+          return res.status(429).json({
+            code: "Error-02-0008",
+            status: "Error",
+            message: "Too many wrong codes. Please try again later.",
+          });
+        }
+
+        const course = await Course.findOne({ courseId });
+        if (!course) {
+          return res.status(404).json({
+            code: "Error-02-0002",
+            status: "Error",
+            message: "Course not found.",
+          });
+        }
+
+        if (!isRegistered(course, user.userId)) {
+          return res.status(400).json({
+            code: "Error-02-0007",
+            status: "Error",
+            message: "You are not registered for this course.",
+          });
+        }
+
+        const session = findCurrentSession(course);
+        if (!session) {
+          return res.status(400).json({
+            code: "Error-02-0004",
+            status: "Error",
+            message: "Code already expired.",
+          });
+        }
+
+        if (
+          !(await isValidCheckInCode(course, session.sessionId, enteredCode))
+        ) {
+          await recordFailedCheckIn(user.userId);
+          return res.status(400).json({
+            code: "Error-02-0003",
+            status: "Error",
+            message: "Invalid code entered.",
+          });
+        }
+        await clearFailedCheckIns(user.userId);
+
+        const result = await recordAttendance(
+          course,
+          session.sessionId,
+          user.userId,
+          "code",
+          { ip: req.ip }
+        );
+        if (result === "already-recorded") {
+          return res.status(400).json({
+            code: "Error-02-0006",
+            status: "Error",
+            message: "You have already checked in to this session.",
+          });
+        }
+
+        res.status(200).json(
+          result === "completed"
+            ? {
+                code: "Success-02-0001",
+                status: "Success",
+                message: "Code is valid waiting admin to approve.",
+                data: { sessionId: session.sessionId },
+              }
+            : {
+                code: "Success-02-0008",
+                status: "Success",
+                message: "Check-in recorded for this session.",
+                data: { sessionId: session.sessionId },
+              }
+        );
+      } catch (error) {
+        console.error("Error validating code:", error);
+        res.status(500).json({
+          code: "Error-03-0001",
+          status: "Error",
+          message: "Internal server error",
+        });
+      }
+    }
+  )
+);
+
+/**
+ * @swagger
+ * /api/v1/courses/{courseId}/attendance/qr:
+ *   get:
+ *     summary: Get a signed QR token for the logged-in registrant
+ *     description: >
+ *       Requires the `attendance:check-in` permission. The token is bound to
+ *       the running session, valid for 5 minutes and meant to be shown as a QR
+ *       code for the instructor.
+ *     tags: [Attendance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: courseId
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Token issued.
+ *       400:
+ *         description: Not registered or no session is running.
+ *       403:
+ *         description: Missing the required permission.
+ *       404:
+ *         description: Course not found.
+ */
+
+attendance.get(
+  "/courses/:courseId/attendance/qr",
+  verifyJWT,
+  requirePermission("attendance:check-in"),
+  validated({ params: { courseId: string() } }, async (req, res) => {
+    const { courseId } = req.params;
+
+    try {
+      const course = await Course.findOne({ courseId });
+      if (!course) {
+        return res.status(404).json({
+          code: "Error-02-0002",
+          status: "Error",
+          message: "Course not found.",
+        });
+      }
+
+      if (!isRegistered(course, req.user.userId)) {
+        return res.status(400).json({
+          code: "Error-02-0007",
+          status: "Error",
+          message: "You are not registered for this course.",
+        });
+      }
+
+      const session = findCurrentSession(course);
+      if (!session) {
+        return res.status(400).json({
+          code: "Error-02-0004",
+          status: "Error",
+          message: "Check-in is only open while a course session is running.",
+        });
+      }
+
+      res.status(200).json({
+        code: "Success-02-0007",
+        status: "Success",
+        message: "QR token issued successfully.",
+        data: {
+          sessionId: session.sessionId,
+          token: signQrToken(courseId, session.sessionId, req.user.userId),
+        },
+      });
+    } catch (error) {
+      console.error("Error issuing QR token:", error);
+      res.status(500).json({
+        code: "Error-03-0001",
+        status: "Error",
+        message: "Internal server error",
+      });
+    }
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/courses/{courseId}/attendance/scan:
+ *   post:
+ *     summary: Check in a registrant by scanning their QR token
+ *     description: Requires the `attendance:manage` permission.
+ *     tags: [Attendance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: courseId
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               token:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Registrant checked in to the session the token was issued for.
+ *       400:
+ *         description: Missing, invalid, expired or foreign token, or already checked in to the session.
+ *       415:
+ *         $ref: '#/components/responses/UnsupportedMediaType'
+ *       403:
+ *         description: Missing the required permission.
+ *       404:
+ *         description: Course not found.
+ */
+
+attendance.post(
+  "/courses/:courseId/attendance/scan",
+  verifyJWT,
+  requirePermission("attendance:manage"),
+  validated(
+    { params: { courseId: string() }, body: { token: string() } },
+    async (req, res) => {
+      const { courseId } = req.params;
+      const { token } = req.body;
+
+      let payload;
+      try {
+        payload = verifyQrToken(token);
+      } catch (error) {
+        return res.status(400).json({
+          code: "Error-02-0003",
+          status: "Error",
+          message: "Invalid or expired QR token.",
+        });
+      }
+
+      if (payload.courseId !== courseId) {
+        return res.status(400).json({
+          code: "Error-02-0009",
+          status: "Error",
+          message: "This QR token belongs to another course.",
+        });
+      }
+
+      try {
+        const course = await Course.findOne({ courseId });
+        if (!course) {
+          return res.status(404).json({
+            code: "Error-02-0002",
+            status: "Error",
+            message: "Course not found.",
+          });
+        }
+
+        if (!isRegistered(course, payload.userId)) {
+          return res.status(400).json({
+            code: "Error-02-0007",
+            status: "Error",
+            message: "This user is not registered for this course.",
+          });
+        }
+
+        const sessionExists = getCourseSessions(course).some(
+          (session) => session.sessionId === payload.sessionId
+        );
+        if (!sessionExists) {
+          return res.status(400).json({
+            code: "Error-02-0009",
+            status: "Error",
+            message: "This QR token belongs to another course session.",
+          });
+        }
+
+        const result = await recordAttendance(
+          course,
+          payload.sessionId,
+          payload.userId,
+          "qr",
+          { recordedBy: req.user.userId, ip: req.ip }
+        );
+        if (result === "already-recorded") {
+          return res.status(400).json({
+            code: "Error-02-0006",
+            status: "Error",
+            message: "User already checked in to this session.",
+          });
+        }
+
+        res.status(200).json({
+          code: result === "completed" ? "Success-02-0001" : "Success-02-0008",
+          status: "Success",
+          message:
+            result === "completed"
+              ? "Check-in recorded, waiting admin to approve."
+              : "Check-in recorded for this session.",
+          data: { userId: payload.userId, sessionId: payload.sessionId },
+        });
+      } catch (error) {
+        console.error("Error scanning QR token:", error);
+        res.status(500).json({
+          code: "Error-03-0001",
+          status: "Error",
+          message: "Internal server error",
+        });
+      }
+    }
+  )
+);
+
+/**
+ * @swagger
+ * /api/v1/courses/{courseId}/attendance:
+ *   get:
+ *     summary: List the check-ins recorded for a course
+ *     description: Requires the `attendance:review` permission.
+ *     tags: [Attendance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: courseId
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Attendance events retrieved successfully.
+ *       403:
+ *         description: Missing the required permission.
+ *       500:
+ *         description: Internal server error.
+ */
+
+attendance.get(
+  "/courses/:courseId/attendance",
+  verifyJWT,
+  requirePermission("attendance:review"),
+  validated({ params: { courseId: string() } }, async (req, res) => {
+    try {
+      const events = await AttendanceEvent.find({
+        courseId: req.params.courseId,
+      }).sort({ createdAt: 1 });
+
+      res.status(200).json({
+        code: "Success-03-0003",
+        status: "Success",
+        message: "Attendance retrieved successfully.",
+        data: events,
+      });
+    } catch (error) {
+      console.error("Error fetching attendance:", error);
+      res.status(500).json({
+        code: "Error-03-0001",
+        status: "Error",
+        message: "Internal server error",
+      });
+    }
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/courses/{courseId}/attendance/summary:
+ *   get:
+ *     summary: Attended hours of every registrant against the course completion rule
+ *     description: Requires the `attendance:review` permission.
+ *     tags: [Attendance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: courseId
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Attendance summary retrieved successfully.
+ *       403:
+ *         description: Missing the required permission.
+ *       404:
+ *         description: Course not found.
+ *       500:
+ *         description: Internal server error.
+ */
+
+attendance.get(
+  "/courses/:courseId/attendance/summary",
+  verifyJWT,
+  requirePermission("attendance:review"),
+  validated({ params: { courseId: string() } }, async (req, res) => {
+    const { courseId } = req.params;
+
+    try {
+      const course = await Course.findOne({ courseId });
+      if (!course) {
+        return res.status(404).json({
+          code: "Error-02-0002",
+          status: "Error",
+          message: "Course not found.",
+        });
+      }
+
+      const events = await AttendanceEvent.find({ courseId });
+      const sessionsByUser = new Map<string, string[]>();
+      for (const event of events) {
+        const sessionIds = sessionsByUser.get(event.userId) || [];
+        sessionIds.push(event.sessionId);
+        sessionsByUser.set(event.userId, sessionIds);
+      }
+
+      const data = course.registeredUsers.map(
+        (registrant: { userId: string; name: string; email: string }) => {
+          const sessionIds = sessionsByUser.get(registrant.userId) || [];
+          return {
+            userId: registrant.userId,
+            name: registrant.name,
+            email: registrant.email,
+            sessionIds,
+            ...attendanceSummary(course, sessionIds),
+          };
+        }
+      );
+
+      res.status(200).json({
+        code: "Success-03-0004",
+        status: "Success",
+        message: "Attendance summary retrieved successfully.",
+        data: {
+          sessions: getCourseSessions(course),
+          registrants: data,
+        },
+      });
+    } catch (error) {
+      console.error("Error fetching attendance summary:", error);
+      res.status(500).json({
+        code: "Error-03-0001",
+        status: "Error",
+        message: "Internal server error",
+      });
+    }
+  })
+);
@@ -0,0 +1,56 @@
+import { rateLimitStore } from "../../middleware/rateLimit";
+
+// Failed logins allowed before the account is locked for the first time
+const FREE_ATTEMPTS = 5;
+// Each further failure doubles the lockout, up to the maximum
+const BASE_LOCKOUT_MS = 60 * 1000;
+const MAX_LOCKOUT_MS = 60 * 60 * 1000;
+// Failures are forgotten after a day without a successful login
+const FAILURE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Keyed by the email as typed rather than the user, so unknown emails lock
+// the same way and a lockout does not reveal whether an account exists
+function accountKey(email: string) {
+  return email.trim().toLowerCase();
+}
+
+export function lockoutDuration(failures: number) {
+  if (failures < FREE_ATTEMPTS) return 0;
+  return Math.min(
+    BASE_LOCKOUT_MS * 2 ** (failures - FREE_ATTEMPTS),
+    MAX_LOCKOUT_MS
+  );
+}
+
+// Milliseconds until the account may try to log in again, or 0
+export async function loginLockedFor(email: string) {
+  const lock = await rateLimitStore().get(`login-lock:${accountKey(email)}`);
+  return lock ? Math.max(lock.resetAt.getTime() - Date.now(), 0) : 0;
+}
+
+// Counts a failed login and locks the account once it has failed too often.
+// Returns how long the account is now locked for.
+export async function recordLoginFailure(email: string) {
+  const store = rateLimitStore();
+  const key = accountKey(email);
+
+  const failures = await store.increment(
+    `login-failures:${key}`,
+    FAILURE_WINDOW_MS
+  );
+  const duration = lockoutDuration(failures.count);
+  if (duration > 0) {
+    await store.reset(`login-lock:${key}`);
+    await store.increment(`login-lock:${key}`, duration);
+  }
+  return duration;
+}
+
+export async function clearLoginFailures(email: string) {
+  const store = rateLimitStore();
+  const key = accountKey(email);
+  await Promise.all([
+    store.reset(`login-failures:${key}`),
+    store.reset(`login-lock:${key}`),
+  ]);
+}
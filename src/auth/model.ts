@@ -0,0 +1,66 @@
+import mongoose from "mongoose";
+
+const sessionSchema = new mongoose.Schema(
+  {
+    sessionId: { type: String, required: true, unique: true },
+    userId: { type: String, required: true, index: true },
+    refreshTokenHash: { type: String, required: true, unique: true },
+    // Kept after rotation so a replayed refresh token can be detected
+    previousRefreshTokenHash: { type: String, index: true },
+    // Whether the login that started the session passed a 2FA check
+    twoFactorVerified: { type: Boolean, default: false },
+    userAgent: { type: String },
+    ip: { type: String },
+    lastUsedAt: { type: Date, default: Date.now, required: true },
+    expiresAt: { type: Date, required: true },
+    revokedAt: { type: Date },
+    revokedReason: { type: String },
+  },
+  { timestamps: true }
+);
+
+export const Session = mongoose.model("sessions", sessionSchema);
+
+// Single-use links sent to confirm a user's email address. Only the hash of
+// the token is stored.
+const emailVerificationSchema = new mongoose.Schema(
+  {
+    tokenHash: { type: String, required: true, unique: true },
+    userId: { type: String, required: true, index: true },
+    email: { type: String, required: true },
+    expiresAt: { type: Date, required: true },
+    usedAt: { type: Date },
+  },
+  { timestamps: true }
+);
+
+export const EmailVerification = mongoose.model(
+  "emailVerifications",
+  emailVerificationSchema
+);
+
+// Single-use password reset links. Only the hash of the token is stored.
+const passwordResetSchema = new mongoose.Schema(
+  {
+    tokenHash: { type: String, required: true, unique: true },
+    userId: { type: String, required: true, index: true },
+    expiresAt: { type: Date, required: true },
+    usedAt: { type: Date },
+  },
+  { timestamps: true }
+);
+
+export const PasswordReset = mongoose.model(
+  "passwordResets",
+  passwordResetSchema
+);
+
+// Request counters of the Mongo rate limit store, one per key and window
+const rateLimitSchema = new mongoose.Schema({
+  key: { type: String, required: true, unique: true },
+  count: { type: Number, required: true },
+  // Removed by MongoDB once the window has passed
+  resetAt: { type: Date, required: true, expires: 0 },
+});
+
+export const RateLimit = mongoose.model("rateLimits", rateLimitSchema);
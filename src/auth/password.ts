@@ -0,0 +1,56 @@
+// Password policy applied wherever a password is chosen
+
+const MIN_LENGTH = 8;
+// bcrypt ignores everything after the first 72 bytes
+const MAX_BYTES = 72;
+
+const COMMON_PASSWORDS = new Set([
+  "password",
+  "password1",
+  "password123",
+  "12345678",
+  "123456789",
+  "1234567890",
+  "qwerty123",
+  "qwertyuiop",
+  "11111111",
+  "iloveyou",
+  "abc12345",
+  "admin123",
+  "welcome1",
+]);
+
+// Returns why the password is too weak, or null when it is acceptable
+export function checkPasswordStrength(
+  password: unknown,
+  user: { email?: string; name?: string } = {}
+): string | null {
+  if (typeof password !== "string" || password.length < MIN_LENGTH) {
+    return `Password must be at least ${MIN_LENGTH} characters long.`;
+  }
+
+  if (Buffer.byteLength(password, "utf8") > MAX_BYTES) {
+    return `Password must be at most ${MAX_BYTES} bytes long.`;
+  }
+
+  if (!/\p{L}/u.test(password) || !/\p{N}/u.test(password)) {
+    return "Password must contain both letters and numbers.";
+  }
+
+  const lowered = password.toLowerCase();
+  if (COMMON_PASSWORDS.has(lowered)) {
+    return "Password is too common.";
+  }
+
+  const personal = [
+    user.email?.split("@")[0],
+    ...(user.name?.split(/\s+/) ?? []),
+  ]
+    .map((part) => part?.toLowerCase())
+    .filter((part): part is string => !!part && part.length >= 3);
+  if (personal.some((part) => lowered.includes(part))) {
+    return "Password must not contain your name or email address.";
+  }
+
+  return null;
+}
@@ -0,0 +1,68 @@
+import crypto from "crypto";
+import { PasswordReset } from "./model";
+import { hashToken } from "./session";
+import { User } from "../users/model";
+import { notifyUser } from "../notifications/notify";
+
+type UserDocument = InstanceType<typeof User>;
+
+export const RESET_TOKEN_TTL_MINUTES = 5;
+
+// Issues a reset token for the user. Links sent earlier stop working.
+export async function createPasswordResetToken(userId: string) {
+  await invalidatePasswordResetTokens(userId);
+
+  const now = new Date();
+  const token = crypto.randomBytes(32).toString("hex");
+  await PasswordReset.create({
+    tokenHash: hashToken(token),
+    userId,
+    expiresAt: new Date(now.getTime() + RESET_TOKEN_TTL_MINUTES * 60 * 1000),
+  });
+
+  return token;
+}
+
+// Creates a new reset link and emails it to the user
+export async function sendPasswordResetEmail(user: UserDocument) {
+  const token = await createPasswordResetToken(user.userId);
+
+  await notifyUser(user, "password-reset", {
+    name: user.name,
+    resetUrl: `${process.env.FRONTEND_URL}/reset-password?token=${token}`,
+    expiresInMinutes: RESET_TOKEN_TTL_MINUTES,
+  });
+}
+
+// The userId the token was issued for, or null when the token is unknown,
+// already used or expired
+export async function findPasswordResetUser(token: string) {
+  const reset = await PasswordReset.findOne({
+    tokenHash: hashToken(token),
+    usedAt: null,
+    expiresAt: { $gt: new Date() },
+  });
+  return reset?.userId ?? null;
+}
+
+// Marks the token used. Returns false when it was consumed in the meantime,
+// so only one request can ever redeem it.
+export async function consumePasswordResetToken(token: string) {
+  const result = await PasswordReset.updateOne(
+    {
+      tokenHash: hashToken(token),
+      usedAt: null,
+      expiresAt: { $gt: new Date() },
+    },
+    { $set: { usedAt: new Date() } }
+  );
+  return result.modifiedCount === 1;
+}
+
+// Voids every outstanding reset link of the user
+export async function invalidatePasswordResetTokens(userId: string) {
+  await PasswordReset.updateMany(
+    { userId, usedAt: null },
+    { $set: { usedAt: new Date() } }
+  );
+}
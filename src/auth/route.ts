@@ -1,23 +1,72 @@
 import express, { Request, Response } from "express";
 import bcrypt from "bcrypt";
-import jwt from "jsonwebtoken";
 import { v4 as uuidv4 } from "uuid";
-import nodemailer from "nodemailer";
-import { User } from "../users/model";
-import { verifyJWT } from "../../middleware/middleware";
+import { emailFilter, idcardFilter, phoneFilter, User } from "../users/model";
+import { normalizeIdentityFields, parsePhoneNumber } from "../users/validation";
+import { recordUserAudit } from "../users/edit";
+import { NOTIFICATION_LOCALES } from "../notifications/templates";
+import { requirePermission, verifyJWT } from "../../middleware/middleware";
+import { Session } from "./model";
+import {
+  clearAuthCookies,
+  createSession,
+  revokeSession,
+  revokeUserSessions,
+  rotateSession,
+  setAccessTokenCookie,
+  setAuthCookies,
+  signAccessToken,
+} from "./session";
+import {
+  generateBackupCodes,
+  generateTwoFactorSecret,
+  hashBackupCode,
+  isTwoFactorRequired,
+  otpauthUri,
+  signTwoFactorChallenge,
+  verifyTwoFactorChallenge,
+  verifyTwoFactorCode,
+} from "./twoFactor";
+import {
+  byBodyField,
+  byIp,
+  byUser,
+  rateLimit,
+} from "../../middleware/rateLimit";
+import {
+  invalidRequest,
+  oneOf,
+  optional,
+  rawString,
+  string,
+  validated,
+} from "../../middleware/validate";
+import { checkPasswordStrength } from "./password";
+import {
+  clearLoginFailures,
+  loginLockedFor,
+  recordLoginFailure,
+} from "./lockout";
+import {
+  consumePasswordResetToken,
+  findPasswordResetUser,
+  invalidatePasswordResetTokens,
+  sendPasswordResetEmail,
+} from "./reset";
+import {
+  resendAvailableIn,
+  sendVerificationEmail,
+  verifyEmail,
+} from "./verification";
 
 require("dotenv").config();
 export const auth = express.Router();
 
-// Configure Nodemailer transport with Mailtrap
-const transporter = nodemailer.createTransport({
-  host: process.env.MAILTRAP_HOST,
-  port: Number(process.env.MAILTRAP_PORT),
-  auth: {
-    user: process.env.MAILTRAP_USER,
-    pass: process.env.MAILTRAP_PASS,
-  },
-});
+const MINUTE_MS = 60 * 1000;
+
+// Compared against when the email is unknown, so a login takes as long
+// whether or not the account exists
+const DUMMY_PASSWORD_HASH = bcrypt.hashSync("not-a-real-password", 10);
 
 /**
  * @swagger
@@ -51,104 +100,444 @@ const transporter = nodemailer.createTransport({
  *                 type: string
  *               password:
  *                 type: string
+ *               locale:
+ *                 type: string
+ *                 enum: [th, en]
+ *                 description: Language of emails sent to the user. Defaults to the Accept-Language header.
  *     responses:
  *       200:
- *         description: User registered successfully.
+ *         description: >
+ *           User registered successfully. The account stays unverified until
+ *           the link emailed to the user is opened.
  *       400:
- *         description: Email, phone number, or ID card already in use.
- *       401:
- *         description: Invalid Header.
+ *         description: >
+ *           Missing or invalid fields (Error-02-0019), an invalid email, Thai
+ *           phone number or ID card
+ *           number (Error-02-0018, Error-02-0017, Error-02-0016), a password
+ *           that breaks the password policy, or an email, phone number, or ID
+ *           card already in use.
+ *       415:
+ *         $ref: '#/components/responses/UnsupportedMediaType'
  *       500:
  *         description: Internal server error.
  */
 
 // Register Route
-auth.post("/register", async (req: Request, res: Response) => {
-  const contentType = req.headers["content-type"];
+auth.post(
+  "/register",
+  validated(
+    {
+      body: {
+        name: string(),
+        email: string(),
+        phonenumber: string(),
+        idcard: string(),
+        company: string(),
+        password: rawString(),
+        locale: optional(oneOf(NOTIFICATION_LOCALES)),
+      },
+    },
+    async (req, res) => {
+      // Stored in canonical form so formatting differences can't create a
+      // second account for the same person
+      const { values, error: identityError } = normalizeIdentityFields(
+        req.body
+      );
+      const { name, email, phonenumber, idcard, company, password, locale } =
+        values;
 
-  console.log(req.headers);
-  console.log(req.body);
+      if (identityError) {
+        return res.status(400).json({
+          code: identityError.code,
+          status: "Error",
+          message: identityError.message,
+        });
+      }
 
-  if (!contentType || contentType !== "application/json") {
-    return res.status(401).json({
-      code: "Error-01-0001",
-      status: "Error",
-      message: "Invalid Header",
-    });
-  }
+      const passwordError = checkPasswordStrength(password, { email, name });
+      if (passwordError) {
+        return res.status(400).json({
+          code: "Error-01-0009",
+          status: "Error",
+          message: passwordError,
+        });
+      }
 
-  const { name, email, phonenumber, idcard, company, password } = req.body;
+      try {
+        // Check if idcard, email, or phonenumber already exists
+        const existingUser = await User.findOne({
+          $or: [
+            emailFilter(email),
+            phoneFilter(phonenumber),
+            ...idcardFilter(idcard).$or,
+          ],
+        });
 
-  if (!name || !email || !phonenumber || !idcard || !company || !password) {
-    return res.status(400).json({
-      code: "Error-02-0001",
-      status: "Error",
-      message: "Missing required fields.",
-    });
-  }
+        if (existingUser) {
+          let conflictField = "";
 
-  try {
-    // Check if idcard, email, or phonenumber already exists
-    const existingUser = await User.findOne({
-      $or: [{ email }, { phonenumber }, { idcard }],
-    });
+          if (existingUser.email.toLowerCase() === email) {
+            conflictField = "email";
+          } else if (
+            parsePhoneNumber(existingUser.phonenumber) === phonenumber
+          ) {
+            conflictField = "phonenumber";
+          } else {
+            conflictField = "idcard";
+          }
+
+          return res.status(400).json({
+            code: "Error-02-0002",
+            status: "Error",
+            message: `This ${conflictField} is already in use. Please check again`,
+          });
+        }
 
-    if (existingUser) {
-      let conflictField = "";
+        const hashedPassword = await bcrypt.hash(password, 10);
 
-      if (existingUser.email === email) {
-        conflictField = "email";
-      } else if (existingUser.phonenumber === phonenumber) {
-        conflictField = "phonenumber";
-      } else if (existingUser.idcard === idcard) {
-        conflictField = "idcard";
+        const userId = uuidv4();
+
+        const newUser = new User({
+          userId: userId,
+          name,
+          email,
+          phonenumber,
+          idcard,
+          company,
+          password: hashedPassword,
+          role: "user",
+          status: "Active",
+          // Emails go out in the language the user signed up in
+          locale:
+            locale ??
+            (req.acceptsLanguages(...NOTIFICATION_LOCALES) || undefined),
+        });
+
+        await newUser.save();
+
+        try {
+          await sendVerificationEmail(newUser);
+        } catch (error) {
+          // The user can ask for another link from /auth/resend-verification
+          console.error("Error sending verification email:", error);
+        }
+
+        res.status(200).json({
+          code: "Success-01-0001",
+          status: "Success",
+          message:
+            "User registered successfully. Please check your email to verify your account.",
+        });
+      } catch (error) {
+        console.error("Error registering user:", error);
+        res.status(500).json({
+          code: "Error-03-0001",
+          status: "Error",
+          message: "Internal server error",
+        });
       }
+    }
+  )
+);
 
-      return res.status(400).json({
-        code: "Error-02-0002",
+/**
+ * @swagger
+ * /api/v1/auth/verify-email:
+ *   post:
+ *     summary: Confirm an email address with the token from the verification link
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *             properties:
+ *               token:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Email verified.
+ *       400:
+ *         description: Missing, invalid, used or expired token.
+ *       415:
+ *         $ref: '#/components/responses/UnsupportedMediaType'
+ *       500:
+ *         description: Internal server error.
+ */
+
+auth.post(
+  "/auth/verify-email",
+  validated({ body: { token: string() } }, async (req, res) => {
+    const { token } = req.body;
+
+    try {
+      const user = await verifyEmail(token);
+      if (!user) {
+        return res.status(400).json({
+          code: "Error-01-0007",
+          status: "Error",
+          message:
+            "Invalid or expired verification link. Please request a new one.",
+        });
+      }
+
+      res.status(200).json({
+        code: "Success-01-0010",
+        status: "Success",
+        message: "Email verified successfully",
+      });
+    } catch (error) {
+      console.error("Error verifying email:", error);
+      res.status(500).json({
+        code: "Error-03-0001",
         status: "Error",
-        message: `This ${conflictField} is already in use. Please check again`,
+        message: "Internal server error.",
       });
     }
+  })
+);
 
-    const hashedPassword = await bcrypt.hash(password, 10);
+/**
+ * @swagger
+ * /api/v1/auth/resend-verification:
+ *   post:
+ *     summary: Send a new email verification link
+ *     description: >
+ *       Responds the same way whether or not the email belongs to an
+ *       unverified account. Links can be requested once a minute and five
+ *       times a day.
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *             properties:
+ *               email:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: A link was sent if the account needs one.
+ *       400:
+ *         $ref: '#/components/responses/InvalidRequest'
+ *       415:
+ *         $ref: '#/components/responses/UnsupportedMediaType'
+ *       429:
+ *         description: Too many links requested. See the Retry-After header.
+ *       500:
+ *         description: Internal server error.
+ */
 
-    const userId = uuidv4();
+auth.post(
+  "/auth/resend-verification",
+  validated({ body: { email: string() } }, async (req, res) => {
+    const { email } = req.body;
 
-    const newUser = new User({
-      userId: userId,
-      name,
-      email,
-      phonenumber,
-      idcard,
-      company,
-      password: hashedPassword,
-      role: "user",
-      status: "Active",
-    });
+    try {
+      const user = await User.findOne({
+        ...emailFilter(email),
+        emailVerifiedAt: null,
+      });
+
+      if (user) {
+        const waitMs = await resendAvailableIn(user.userId);
+        if (waitMs > 0) {
+          res.set("Retry-After", String(Math.ceil(waitMs / 1000)));
+          return res.status(429).json({
+            code: "Error-01-0008",
+            status: "Error",
+            message:
+              "Too many verification emails requested. Please try later.",
+          });
+        }
+
+        await sendVerificationEmail(user);
+      }
+
+      res.status(200).json({
+        code: "Success-01-0011",
+        status: "Success",
+        message: "If the account needs verification, a new link has been sent.",
+      });
+    } catch (error) {
+      console.error("Error resending verification email:", error);
+      res.status(500).json({
+        code: "Error-03-0001",
+        status: "Error",
+        message: "Internal server error.",
+      });
+    }
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/login:
+ *   post:
+ *     summary: User login
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *               - password
+ *             properties:
+ *               email:
+ *                 type: string
+ *               password:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: >
+ *           Login successful. Sets a short-lived token cookie and an httpOnly
+ *           refreshToken cookie for /api/v1/auth/refresh. When the user has
+ *           2FA turned on, no cookies are set; the response (Success-01-0012)
+ *           carries a challengeToken for /api/v1/auth/2fa/verify instead.
+ *           Roles that must use 2FA but have not set it up get
+ *           twoFactorSetupRequired and can only reach the 2FA setup routes.
+ *       400:
+ *         description: >
+ *           Missing fields (Error-02-0019), or an invalid email or password.
+ *           The same response is given whether or not the email belongs to an
+ *           account.
+ *       415:
+ *         $ref: '#/components/responses/UnsupportedMediaType'
+ *       429:
+ *         description: >
+ *           Too many attempts from this IP address, or the email is locked
+ *           after repeated failures. Each failure beyond the fifth doubles the
+ *           lockout, from one minute up to an hour. See the Retry-After header.
+ *       500:
+ *         description: Internal server error.
+ */
+
+// Login Route
+auth.post(
+  "/login",
+  rateLimit({ name: "login-ip", windowMs: 15 * MINUTE_MS, max: 50, key: byIp }),
+  validated(
+    { body: { email: string(), password: rawString() } },
+    async (req, res) => {
+      const { email, password } = req.body;
+
+      try {
+        const lockedFor = await loginLockedFor(email);
+        if (lockedFor > 0) {
+          res.set("Retry-After", String(Math.ceil(lockedFor / 1000)));
+          return res.status(429).json({
+            code: "Error-01-0019",
+            status: "Error",
+            message: "Too many failed login attempts. Please try again later.",
+          });
+        }
+
+        const user = await User.findOne(emailFilter(email));
+        const isPasswordValid = await bcrypt.compare(
+          password,
+          user?.password ?? DUMMY_PASSWORD_HASH
+        );
+
+        if (!user || !isPasswordValid) {
+          await recordLoginFailure(email);
+          return res.status(400).json({
+            code: "Error-02-0004",
+            status: "Error",
+            message: "Invalid email or password.",
+          });
+        }
+
+        await clearLoginFailures(email);
+
+        // The session is only started once the second factor checks out
+        if (user.twoFactor?.enabled) {
+          return res.status(200).json({
+            code: "Success-01-0012",
+            status: "Success",
+            message: "Enter the code from your authenticator app",
+            data: {
+              twoFactorRequired: true,
+              challengeToken: signTwoFactorChallenge(user.userId),
+            },
+          });
+        }
+
+        const { session, refreshToken } = await createSession(user, req);
+        const token = signAccessToken(user, session.sessionId);
+
+        setAuthCookies(res, token, refreshToken);
+
+        res.status(200).json({
+          code: "Success-01-0002",
+          status: "Success",
+          message: "Login successful",
+          ...(isTwoFactorRequired(user.role) && {
+            data: { twoFactorSetupRequired: true },
+          }),
+        });
+      } catch (error) {
+        console.error("Error during login:", error);
+        res.status(500).json({
+          code: "Error-03-0001",
+          status: "Error",
+          message: "Internal server error.",
+        });
+      }
+    }
+  )
+);
+
+/**
+ * @swagger
+ * /api/v1/auth/logout:
+ *   post:
+ *     summary: User logout
+ *     description: Requires any authenticated user.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Logout successful. The current session is revoked.
+ *       500:
+ *         description: Internal server error.
+ */
 
-    await newUser.save();
+// Logout Route
+auth.post("/auth/logout", verifyJWT, async (req, res) => {
+  try {
+    await revokeSession(req.user.userId, req.user.sessionId, "logout");
+    clearAuthCookies(res);
 
     res.status(200).json({
-      code: "Success-01-0001",
+      code: "Success-01-0003",
       status: "Success",
-      message: "User registered successfully",
+      message: "Logged out successfully",
     });
   } catch (error) {
-    console.error("Error registering user:", error);
+    console.error("Error during logout:", error);
     res.status(500).json({
       code: "Error-03-0001",
       status: "Error",
-      message: "Internal server error",
+      message: "Internal server error.",
     });
   }
 });
 
 /**
  * @swagger
- * /api/v1/login:
+ * /api/v1/forgot-password:
  *   post:
- *     summary: User login
+ *     summary: Request password reset
  *     tags: [Auth]
  *     requestBody:
  *       required: true
@@ -158,90 +547,345 @@ auth.post("/register", async (req: Request, res: Response) => {
  *             type: object
  *             required:
  *               - email
- *               - password
  *             properties:
  *               email:
  *                 type: string
- *               password:
+ *     responses:
+ *       200:
+ *         description: >
+ *           Request accepted. A reset link is emailed only if an account
+ *           exists, but the response is the same either way.
+ *       400:
+ *         description: Missing email (Error-02-0019).
+ *       415:
+ *         $ref: '#/components/responses/UnsupportedMediaType'
+ *       429:
+ *         description: Too many reset requests for this email or IP address.
+ *       500:
+ *         description: Internal server error.
+ */
+
+// Forgot Password Route
+auth.post(
+  "/forgot-password",
+  rateLimit({
+    name: "forgot-ip",
+    windowMs: 60 * MINUTE_MS,
+    max: 20,
+    key: byIp,
+  }),
+  rateLimit({
+    name: "forgot-account",
+    windowMs: 60 * MINUTE_MS,
+    max: 3,
+    key: byBodyField("email"),
+  }),
+  validated({ body: { email: string() } }, async (req, res) => {
+    const { email } = req.body;
+
+    try {
+      // The same answer either way, so the form does not reveal which
+      // emails have accounts. The email goes out in the background so the
+      // response does not take longer when there is one.
+      const user = await User.findOne(emailFilter(email));
+      if (user) {
+        sendPasswordResetEmail(user).catch((error) => {
+          console.error("Error sending password reset email:", error);
+        });
+      }
+
+      res.status(200).json({
+        code: "Success-01-0004",
+        status: "Success",
+        message:
+          "If an account exists for this email, a password reset link has been sent.",
+      });
+    } catch (error) {
+      console.error("Error requesting password reset:", error);
+      res.status(500).json({
+        code: "Error-03-0001",
+        status: "Error",
+        message: "Internal server error during password reset.",
+      });
+    }
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/auth/reset-password:
+ *   post:
+ *     summary: Reset password
+ *     description: >
+ *       The token comes from the emailed reset link and can be used once.
+ *       A successful reset voids the user's other reset links and signs out
+ *       all of their sessions.
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *               - newPassword
+ *             properties:
+ *               token:
+ *                 type: string
+ *               newPassword:
  *                 type: string
  *     responses:
  *       200:
- *         description: Login successful.
+ *         description: Password reset successful.
  *       400:
- *         description: Invalid email or password.
- *       401:
- *         description: Invalid Header.
+ *         description: >
+ *           Missing fields (Error-02-0019), an invalid, used or expired token,
+ *           or a password that breaks the password policy.
+ *       415:
+ *         $ref: '#/components/responses/UnsupportedMediaType'
  *       500:
  *         description: Internal server error.
  */
 
-// Login Route
-auth.post("/login", async (req: Request, res: Response) => {
-  const contentType = req.headers["content-type"];
-  // console.log(headers);
-  // console.log(contentType);
+// Reset Password Route
+auth.post(
+  "/auth/reset-password",
+  validated(
+    { body: { token: string(), newPassword: rawString() } },
+    async (req, res) => {
+      const { token, newPassword } = req.body;
 
-  if (!contentType || contentType !== "application/json") {
-    return res.status(401).json({
-      code: "Error-01-0001",
-      status: "Error",
-      message: "Invalid Header.",
-    });
-  }
+      try {
+        const userId = await findPasswordResetUser(token);
+        if (!userId) {
+          return res.status(400).json({
+            code: "Error-01-0003",
+            status: "Error",
+            message:
+              "Invalid or expired token. Please request a new reset link.",
+          });
+        }
+
+        const user = await User.findOne({ userId });
+        if (!user) {
+          return res.status(404).json({
+            code: "Error-02-0003",
+            status: "Error",
+            message: "User not found. The token may be invalid.",
+          });
+        }
+
+        const passwordError = checkPasswordStrength(newPassword, user);
+        if (passwordError) {
+          return res.status(400).json({
+            code: "Error-01-0009",
+            status: "Error",
+            message: passwordError,
+          });
+        }
+
+        if (!(await consumePasswordResetToken(token))) {
+          return res.status(400).json({
+            code: "Error-01-0003",
+            status: "Error",
+            message:
+              "Invalid or expired token. Please request a new reset link.",
+          });
+        }
 
-  // Destructure the body after verifying content-type
-  const { email, password } = req.body;
+        user.password = await bcrypt.hash(newPassword, 10);
+        await user.save();
+        await invalidatePasswordResetTokens(user.userId);
+        await revokeUserSessions(user.userId, "password-reset");
 
-  if (!email || !password) {
+        return res.status(200).json({
+          code: "Success-01-0003",
+          status: "Success",
+          message:
+            "Password reset successful. You can now log in with your new password.",
+        });
+      } catch (error) {
+        console.error("Error resetting password:", error);
+        return res.status(500).json({
+          code: "Error-03-0001",
+          status: "Error",
+          message: "Internal server error. Please try again later.",
+        });
+      }
+    }
+  )
+);
+
+/**
+ * @swagger
+ * /api/v1/auth/change-password:
+ *   post:
+ *     summary: Change the logged-in user's password
+ *     description: >
+ *       Requires any authenticated user and their current password. The new
+ *       password must meet the password policy. Every other session of the
+ *       user is signed out and outstanding reset links stop working.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - currentPassword
+ *               - newPassword
+ *             properties:
+ *               currentPassword:
+ *                 type: string
+ *               newPassword:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Password changed.
+ *       400:
+ *         description: >
+ *           Missing fields (Error-02-0019), a wrong current password, or a new
+ *           password that breaks the password policy or equals the current one.
+ *       415:
+ *         $ref: '#/components/responses/UnsupportedMediaType'
+ *       429:
+ *         description: Too many attempts.
+ *       500:
+ *         description: Internal server error.
+ */
+
+auth.post(
+  "/auth/change-password",
+  verifyJWT,
+  rateLimit({
+    name: "change-password-user",
+    windowMs: 15 * MINUTE_MS,
+    max: 10,
+    key: byUser,
+  }),
+  validated(
+    { body: { currentPassword: rawString(), newPassword: rawString() } },
+    async (req, res) => {
+      const { currentPassword, newPassword } = req.body;
+
+      try {
+        const user = await User.findOne({ userId: req.user.userId });
+        if (!user) {
+          return res.status(404).json({
+            code: "Error-02-0003",
+            status: "Error",
+            message: "User not found.",
+          });
+        }
+
+        if (!(await bcrypt.compare(currentPassword, user.password))) {
+          return res.status(400).json({
+            code: "Error-02-0004",
+            status: "Error",
+            message: "Current password is incorrect.",
+          });
+        }
+
+        const passwordError =
+          newPassword === currentPassword
+            ? "New password must be different from the current one."
+            : checkPasswordStrength(newPassword, user);
+        if (passwordError) {
+          return res.status(400).json({
+            code: "Error-01-0009",
+            status: "Error",
+            message: passwordError,
+          });
+        }
+
+        user.password = await bcrypt.hash(newPassword, 10);
+        await user.save();
+        await invalidatePasswordResetTokens(user.userId);
+        await revokeUserSessions(
+          user.userId,
+          "password-changed",
+          req.user.sessionId
+        );
+
+        res.status(200).json({
+          code: "Success-01-0018",
+          status: "Success",
+          message: "Password changed successfully",
+        });
+      } catch (error) {
+        console.error("Error changing password:", error);
+        res.status(500).json({
+          code: "Error-03-0001",
+          status: "Error",
+          message: "Internal server error.",
+        });
+      }
+    }
+  )
+);
+
+/**
+ * @swagger
+ * /api/v1/auth/refresh:
+ *   post:
+ *     summary: Exchange the refresh token cookie for a new access token
+ *     description: >
+ *       Reads the httpOnly refreshToken cookie, rotates it and sets new token
+ *       and refreshToken cookies. Reusing an already rotated refresh token
+ *       revokes its session.
+ *     tags: [Auth]
+ *     responses:
+ *       200:
+ *         description: Token refreshed.
+ *       401:
+ *         description: Missing, invalid, expired or revoked refresh token.
+ *       500:
+ *         description: Internal server error.
+ */
+
+auth.post("/auth/refresh", async (req: Request, res: Response) => {
+  const refreshToken = req.cookies?.refreshToken;
+
+  if (!refreshToken) {
     return res.status(401).json({
-      code: "Error-02-0001",
+      code: "Error-01-0004",
       status: "Error",
-      message: "Missing required field.",
+      message: "Refresh token is missing.",
     });
   }
 
   try {
-    const user = await User.findOne({ email });
+    const rotated = await rotateSession(refreshToken);
+    const user =
+      rotated && (await User.findOne({ userId: rotated.session.userId }));
 
-    if (!user) {
-      return res.status(400).json({
-        code: "Error-02-0003",
+    if (!rotated || !user) {
+      clearAuthCookies(res);
+      return res.status(401).json({
+        code: "Error-01-0005",
         status: "Error",
-        message: "User not found. ",
+        message: "Invalid or expired refresh token. Please log in again.",
       });
     }
 
-    const isPasswordValid = await bcrypt.compare(password, user.password);
-    if (!isPasswordValid) {
-      return res.status(400).json({
-        code: "Error-02-0004",
-        status: "Error",
-        message: "Invalid password. Please try again.",
-      });
-    }
-
-    const token = jwt.sign(
-      { userId: user.userId, email: user.email, role: user.role },
-      process.env.JWT_SECRET!,
-      {
-        expiresIn: "2h",
-      }
+    const token = signAccessToken(
+      user,
+      rotated.session.sessionId,
+      rotated.session.twoFactorVerified
     );
-
-    res.cookie("token", token, {
-      // httpOnly: true,
-      secure: true,
-      maxAge: 7200000, // 2 hour
-      sameSite: "strict",
-    });
+    setAuthCookies(res, token, rotated.refreshToken);
 
     res.status(200).json({
-      code: "Success-01-0002",
+      code: "Success-01-0005",
       status: "Success",
-      message: "Login successful",
+      message: "Token refreshed successfully",
     });
   } catch (error) {
-    console.error("Error during login:", error);
+    console.error("Error refreshing token:", error);
     res.status(500).json({
       code: "Error-03-0001",
       status: "Error",
@@ -252,46 +896,53 @@ auth.post("/login", async (req: Request, res: Response) => {
 
 /**
  * @swagger
- * /api/v1/auth/logout:
- *   post:
- *     summary: User logout
+ * /api/v1/auth/sessions:
+ *   get:
+ *     summary: List the active sessions of the logged-in user
+ *     description: Requires any authenticated user.
  *     tags: [Auth]
  *     security:
  *       - bearerAuth: []
  *     responses:
  *       200:
- *         description: Logout successful.
- *       400:
- *         description: Invalid Header.
+ *         description: Sessions retrieved successfully.
+ *       500:
+ *         description: Internal server error.
+ *   delete:
+ *     summary: Revoke every other session of the logged-in user
+ *     description: Requires any authenticated user. The current session is kept.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Sessions revoked successfully.
  *       500:
  *         description: Internal server error.
  */
 
-// Logout Route
-auth.post("/auth/logout", verifyJWT, (req, res) => {
-  const contentType = req.headers["content-type"];
-  // Validate content type
-  if (!contentType || contentType !== "application/json") {
-    return res.status(400).json({
-      code: "Error-01-0001",
-      status: "Error",
-      message: "Invalid Headers",
-    });
-  }
-
+auth.get("/auth/sessions", verifyJWT, async (req: Request, res: Response) => {
   try {
-    res.clearCookie("token", {
-      secure: true,
-      sameSite: "strict",
-    });
+    const sessions = await Session.find(
+      {
+        userId: req.user.userId,
+        revokedAt: null,
+        expiresAt: { $gt: new Date() },
+      },
+      { sessionId: 1, userAgent: 1, ip: 1, createdAt: 1, lastUsedAt: 1 }
+    ).sort({ lastUsedAt: -1 });
 
     res.status(200).json({
-      code: "Success-01-0003",
+      code: "Success-01-0006",
       status: "Success",
-      message: "Logged out successfully",
+      message: "Sessions retrieved successfully",
+      data: sessions.map((session) => ({
+        ...session.toObject(),
+        current: session.sessionId === req.user.sessionId,
+      })),
     });
   } catch (error) {
-    console.error("Error during logout:", error);
+    console.error("Error fetching sessions:", error);
     res.status(500).json({
       code: "Error-03-0001",
       status: "Error",
@@ -300,11 +951,159 @@ auth.post("/auth/logout", verifyJWT, (req, res) => {
   }
 });
 
+auth.delete(
+  "/auth/sessions",
+  verifyJWT,
+  async (req: Request, res: Response) => {
+    try {
+      await revokeUserSessions(
+        req.user.userId,
+        "user-revoked",
+        req.user.sessionId
+      );
+
+      res.status(200).json({
+        code: "Success-01-0007",
+        status: "Success",
+        message: "Other sessions revoked successfully",
+      });
+    } catch (error) {
+      console.error("Error revoking sessions:", error);
+      res.status(500).json({
+        code: "Error-03-0001",
+        status: "Error",
+        message: "Internal server error.",
+      });
+    }
+  }
+);
+
 /**
  * @swagger
- * /api/v1/forgot-password:
+ * /api/v1/auth/sessions/{sessionId}:
+ *   delete:
+ *     summary: Revoke one of the logged-in user's sessions
+ *     description: Requires any authenticated user.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: sessionId
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Session revoked successfully.
+ *       404:
+ *         description: No active session with this ID.
+ *       500:
+ *         description: Internal server error.
+ */
+
+auth.delete(
+  "/auth/sessions/:sessionId",
+  verifyJWT,
+  validated({ params: { sessionId: string() } }, async (req, res) => {
+    try {
+      const result = await revokeSession(
+        req.user.userId,
+        req.params.sessionId,
+        "user-revoked"
+      );
+
+      if (!result.modifiedCount) {
+        return res.status(404).json({
+          code: "Error-01-0006",
+          status: "Error",
+          message: "Session not found.",
+        });
+      }
+
+      if (req.params.sessionId === req.user.sessionId) {
+        clearAuthCookies(res);
+      }
+
+      res.status(200).json({
+        code: "Success-01-0008",
+        status: "Success",
+        message: "Session revoked successfully",
+      });
+    } catch (error) {
+      console.error("Error revoking session:", error);
+      res.status(500).json({
+        code: "Error-03-0001",
+        status: "Error",
+        message: "Internal server error.",
+      });
+    }
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/admin/users/{userId}/sessions:
+ *   delete:
+ *     summary: Revoke every session of a user
+ *     description: Requires the `user:sessions:revoke` permission.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: userId
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Sessions revoked successfully.
+ *       403:
+ *         description: Missing the required permission.
+ *       500:
+ *         description: Internal server error.
+ */
+
+auth.delete(
+  "/admin/users/:userId/sessions",
+  verifyJWT,
+  requirePermission("user:sessions:revoke"),
+  validated({ params: { userId: string() } }, async (req, res) => {
+    try {
+      const result = await revokeUserSessions(
+        req.params.userId,
+        "admin-revoked"
+      );
+
+      res.status(200).json({
+        code: "Success-01-0009",
+        status: "Success",
+        message: `${result.modifiedCount} session(s) revoked successfully`,
+      });
+    } catch (error) {
+      console.error("Error revoking sessions:", error);
+      res.status(500).json({
+        code: "Error-03-0001",
+        status: "Error",
+        message: "Internal server error.",
+      });
+    }
+  })
+);
+
+const TWO_FACTOR_FIELDS =
+  "+twoFactor.secret +twoFactor.pendingSecret +twoFactor.backupCodeHashes";
+
+/**
+ * @swagger
+ * /api/v1/auth/2fa/verify:
  *   post:
- *     summary: Request password reset
+ *     summary: Finish a login with a 2FA code or a backup code
+ *     description: >
+ *       Takes the challengeToken returned by /api/v1/login. Each backup code
+ *       works once. Wrong codes count towards the login lockout of the
+ *       account.
  *     tags: [Auth]
  *     requestBody:
  *       required: true
@@ -313,90 +1112,202 @@ auth.post("/auth/logout", verifyJWT, (req, res) => {
  *           schema:
  *             type: object
  *             required:
- *               - email
+ *               - challengeToken
  *             properties:
- *               email:
+ *               challengeToken:
+ *                 type: string
+ *               code:
  *                 type: string
+ *                 example: "123456"
+ *               backupCode:
+ *                 type: string
+ *                 example: "1a2b3-c4d5e"
  *     responses:
  *       200:
- *         description: Password reset email sent.
+ *         description: Login successful. Sets the token and refreshToken cookies.
  *       400:
- *         description: User not found.
+ *         description: Missing fields (Error-02-0019) or a wrong code.
+ *       415:
+ *         $ref: '#/components/responses/UnsupportedMediaType'
  *       401:
- *         description: Invalid Header.
+ *         description: Invalid or expired challenge token.
+ *       429:
+ *         description: Too many failed attempts. See the Retry-After header.
  *       500:
  *         description: Internal server error.
  */
 
-// Forgot Password Route
-auth.post("/forgot-password", async (req, res) => {
-  const contentType = req.headers["content-type"];
+auth.post(
+  "/auth/2fa/verify",
+  rateLimit({ name: "2fa-ip", windowMs: 15 * MINUTE_MS, max: 50, key: byIp }),
+  validated(
+    {
+      body: {
+        challengeToken: string(),
+        code: optional(string()),
+        backupCode: optional(string()),
+      },
+    },
+    async (req, res) => {
+      const { challengeToken, code, backupCode } = req.body;
 
-  // console.log(headers);
-  // console.log(contentType);
+      if (!code && !backupCode) {
+        return invalidRequest(res, [
+          {
+            location: "body",
+            field: "code",
+            message: "or backupCode is required",
+          },
+        ]);
+      }
 
-  if (!contentType || contentType !== "application/json") {
-    return res.status(401).json({
-      code: "Error-01-0001",
-      status: "Error",
-      message: "Invalid Header.",
-    });
-  }
+      try {
+        const userId = verifyTwoFactorChallenge(challengeToken);
+        const user =
+          userId &&
+          (await User.findOne({ userId }).select(TWO_FACTOR_FIELDS).exec());
 
-  const { email } = req.body;
+        if (!user || !user.twoFactor?.enabled || !user.twoFactor.secret) {
+          return res.status(401).json({
+            code: "Error-01-0021",
+            status: "Error",
+            message: "Invalid or expired login. Please log in again.",
+          });
+        }
 
-  if (!email) {
-    return res.status(401).json({
-      code: "Error-02-0001",
-      status: "Error",
-      message: "Missing required field: email.",
-    });
-  }
+        const lockedFor = await loginLockedFor(user.email);
+        if (lockedFor > 0) {
+          res.set("Retry-After", String(Math.ceil(lockedFor / 1000)));
+          return res.status(429).json({
+            code: "Error-01-0019",
+            status: "Error",
+            message: "Too many failed login attempts. Please try again later.",
+          });
+        }
+
+        let verified = verifyTwoFactorCode(user.twoFactor.secret, code);
+        if (!verified && typeof backupCode === "string") {
+          // Pulled atomically so a backup code can only ever be used once
+          const result = await User.updateOne(
+            {
+              userId: user.userId,
+              "twoFactor.backupCodeHashes": hashBackupCode(backupCode),
+            },
+            {
+              $pull: {
+                "twoFactor.backupCodeHashes": hashBackupCode(backupCode),
+              },
+            }
+          );
+          verified = result.modifiedCount === 1;
+        }
+
+        if (!verified) {
+          await recordLoginFailure(user.email);
+          return res.status(400).json({
+            code: "Error-01-0022",
+            status: "Error",
+            message: "Invalid two-factor code.",
+          });
+        }
+
+        await clearLoginFailures(user.email);
+
+        const { session, refreshToken } = await createSession(user, req, true);
+        const token = signAccessToken(user, session.sessionId, true);
+        setAuthCookies(res, token, refreshToken);
+
+        res.status(200).json({
+          code: "Success-01-0002",
+          status: "Success",
+          message: "Login successful",
+        });
+      } catch (error) {
+        console.error("Error verifying two-factor code:", error);
+        res.status(500).json({
+          code: "Error-03-0001",
+          status: "Error",
+          message: "Internal server error.",
+        });
+      }
+    }
+  )
+);
+
+/**
+ * @swagger
+ * /api/v1/auth/2fa/setup:
+ *   post:
+ *     summary: Start setting up 2FA for the logged-in user
+ *     description: >
+ *       Requires any authenticated user. Returns a new secret and the
+ *       otpauth URI to show as a QR code. 2FA is only turned on once a code
+ *       is confirmed through /api/v1/auth/2fa/enable.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Secret created.
+ *       400:
+ *         description: 2FA is already turned on.
+ *       500:
+ *         description: Internal server error.
+ */
 
+auth.post("/auth/2fa/setup", verifyJWT, async (req: Request, res: Response) => {
   try {
-    const user = await User.findOne({ email });
+    const user = await User.findOne({ userId: req.user.userId }).select(
+      TWO_FACTOR_FIELDS
+    );
     if (!user) {
-      return res.status(400).json({
+      return res.status(404).json({
         code: "Error-02-0003",
         status: "Error",
-        message: "User not found. Please check your email.",
+        message: "User not found.",
       });
     }
 
-    const resetToken = jwt.sign(
-      { userId: user.userId, email: user.email, role: user.role },
-      process.env.JWT_SECRET!,
-      { expiresIn: "5m" }
-    );
+    if (user.twoFactor?.enabled) {
+      return res.status(400).json({
+        code: "Error-01-0023",
+        status: "Error",
+        message: "Two-factor authentication is already turned on.",
+      });
+    }
 
-    const resetUrl = `${process.env.FRONTEND_URL}/reset-password?token=${resetToken}`;
-    await transporter.sendMail({
-      from: "noreply@example.com",
-      to: email,
-      subject: "Password Reset Request",
-      text: `Click the following link to reset your password: ${resetUrl}`,
-    });
+    const secret = generateTwoFactorSecret();
+    user.set("twoFactor.pendingSecret", secret);
+    await user.save();
 
     res.status(200).json({
-      code: "Success-01-0004",
+      code: "Success-01-0013",
       status: "Success",
-      message: "Password reset email sent.",
+      message: "Scan the QR code with your authenticator app",
+      data: { secret, otpauthUri: otpauthUri(secret, user.email) },
     });
   } catch (error) {
+    console.error("Error setting up two-factor authentication:", error);
     res.status(500).json({
       code: "Error-03-0001",
       status: "Error",
-      message: "Internal server error during password reset.",
+      message: "Internal server error.",
     });
   }
 });
 
 /**
  * @swagger
- * /api/v1/auth/reset-password:
+ * /api/v1/auth/2fa/enable:
  *   post:
- *     summary: Reset password
+ *     summary: Turn on 2FA by confirming a code from the authenticator app
+ *     description: >
+ *       Requires any authenticated user. Returns backup codes, which are
+ *       shown only this once. The current session counts as 2FA-verified and
+ *       the user's other sessions are signed out.
  *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
  *     requestBody:
  *       required: true
  *       content:
@@ -404,84 +1315,346 @@ auth.post("/forgot-password", async (req, res) => {
  *           schema:
  *             type: object
  *             required:
- *               - token
- *               - newPassword
+ *               - code
  *             properties:
- *               token:
- *                 type: string
- *               newPassword:
+ *               code:
  *                 type: string
  *     responses:
  *       200:
- *         description: Password reset successful.
+ *         description: 2FA turned on. A new token cookie is set.
  *       400:
- *         description: Invalid or expired token.
- *       401:
- *         description: Invalid Header.
+ *         description: Missing code (Error-02-0019), setup not started, or wrong code.
+ *       415:
+ *         $ref: '#/components/responses/UnsupportedMediaType'
  *       500:
  *         description: Internal server error.
  */
 
-// Reset Password Route
-auth.post("/auth/reset-password", async (req, res) => {
-  const contentType = req.headers["content-type"];
+auth.post(
+  "/auth/2fa/enable",
+  verifyJWT,
+  validated({ body: { code: string() } }, async (req, res) => {
+    try {
+      const user = await User.findOne({ userId: req.user.userId }).select(
+        TWO_FACTOR_FIELDS
+      );
+      const pendingSecret = user?.twoFactor?.pendingSecret;
+      if (!user || !pendingSecret || user.twoFactor?.enabled) {
+        return res.status(400).json({
+          code: "Error-01-0024",
+          status: "Error",
+          message: "Start two-factor setup first.",
+        });
+      }
 
-  if (!contentType || contentType !== "application/json") {
-    return res.status(400).json({
-      code: "Error-01-0001",
-      status: "Error",
-      message: "Invalid Header. Content-Type must be application/json.",
-    });
-  }
+      if (!verifyTwoFactorCode(pendingSecret, req.body.code)) {
+        return res.status(400).json({
+          code: "Error-01-0022",
+          status: "Error",
+          message: "Invalid two-factor code.",
+        });
+      }
 
-  try {
-    const { token, newPassword } = req.body;
+      const { codes, hashes } = generateBackupCodes();
+      user.set("twoFactor", {
+        enabled: true,
+        enabledAt: new Date(),
+        secret: pendingSecret,
+        pendingSecret: undefined,
+        backupCodeHashes: hashes,
+      });
+      await user.save();
 
-    if (!token || !newPassword) {
-      return res.status(400).json({
-        code: "Error-02-0001",
+      await Session.updateOne(
+        { sessionId: req.user.sessionId },
+        { $set: { twoFactorVerified: true } }
+      );
+      await revokeUserSessions(
+        user.userId,
+        "two-factor-enabled",
+        req.user.sessionId
+      );
+      setAccessTokenCookie(
+        res,
+        signAccessToken(user, req.user.sessionId, true)
+      );
+
+      res.status(200).json({
+        code: "Success-01-0014",
+        status: "Success",
+        message: "Two-factor authentication turned on",
+        data: { backupCodes: codes },
+      });
+    } catch (error) {
+      console.error("Error enabling two-factor authentication:", error);
+      res.status(500).json({
+        code: "Error-03-0001",
         status: "Error",
-        message: "Missing required fields: token and newPassword.",
+        message: "Internal server error.",
       });
     }
+  })
+);
 
-    let decoded;
+/**
+ * @swagger
+ * /api/v1/auth/2fa/backup-codes:
+ *   post:
+ *     summary: Replace the backup codes of the logged-in user
+ *     description: >
+ *       Requires any authenticated user with 2FA turned on. The old backup
+ *       codes stop working.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: New backup codes, shown only this once.
+ *       400:
+ *         description: Missing code (Error-02-0019), 2FA is not turned on, or wrong code.
+ *       415:
+ *         $ref: '#/components/responses/UnsupportedMediaType'
+ *       500:
+ *         description: Internal server error.
+ */
 
+auth.post(
+  "/auth/2fa/backup-codes",
+  verifyJWT,
+  validated({ body: { code: string() } }, async (req, res) => {
     try {
-      decoded = jwt.verify(token, process.env.JWT_SECRET!) as jwt.JwtPayload;
-    } catch (err) {
-      console.error("Token verification failed:", err);
-      return res.status(400).json({
-        code: "Error-01-0003",
+      const user = await User.findOne({ userId: req.user.userId }).select(
+        TWO_FACTOR_FIELDS
+      );
+      if (!user?.twoFactor?.enabled || !user.twoFactor.secret) {
+        return res.status(400).json({
+          code: "Error-01-0025",
+          status: "Error",
+          message: "Two-factor authentication is not turned on.",
+        });
+      }
+
+      if (!verifyTwoFactorCode(user.twoFactor.secret, req.body.code)) {
+        return res.status(400).json({
+          code: "Error-01-0022",
+          status: "Error",
+          message: "Invalid two-factor code.",
+        });
+      }
+
+      const { codes, hashes } = generateBackupCodes();
+      user.set("twoFactor.backupCodeHashes", hashes);
+      await user.save();
+
+      res.status(200).json({
+        code: "Success-01-0015",
+        status: "Success",
+        message: "Backup codes replaced",
+        data: { backupCodes: codes },
+      });
+    } catch (error) {
+      console.error("Error replacing backup codes:", error);
+      res.status(500).json({
+        code: "Error-03-0001",
         status: "Error",
-        message: "Invalid or expired token. Please request a new reset link.",
+        message: "Internal server error.",
       });
     }
+  })
+);
 
-    const user = await User.findOne({ userId: decoded.userId });
-    if (!user) {
-      return res.status(404).json({
-        code: "Error-02-0003",
+/**
+ * @swagger
+ * /api/v1/auth/2fa/disable:
+ *   post:
+ *     summary: Turn off 2FA for the logged-in user
+ *     description: >
+ *       Requires any authenticated user whose role does not require 2FA, and
+ *       both their password and a current code.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - password
+ *               - code
+ *             properties:
+ *               password:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: 2FA turned off.
+ *       400:
+ *         description: >
+ *           Missing fields (Error-02-0019), 2FA is not turned on, or wrong
+ *           password or code.
+ *       415:
+ *         $ref: '#/components/responses/UnsupportedMediaType'
+ *       403:
+ *         description: The user's role requires 2FA.
+ *       500:
+ *         description: Internal server error.
+ */
+
+auth.post(
+  "/auth/2fa/disable",
+  verifyJWT,
+  validated(
+    { body: { password: rawString(), code: string() } },
+    async (req, res) => {
+      if (isTwoFactorRequired(req.user.role)) {
+        return res.status(403).json({
+          code: "Error-01-0026",
+          status: "Error",
+          message: "Two-factor authentication is required for your role.",
+        });
+      }
+
+      const { password, code } = req.body;
+
+      try {
+        const user = await User.findOne({ userId: req.user.userId }).select(
+          TWO_FACTOR_FIELDS
+        );
+        if (!user?.twoFactor?.enabled || !user.twoFactor.secret) {
+          return res.status(400).json({
+            code: "Error-01-0025",
+            status: "Error",
+            message: "Two-factor authentication is not turned on.",
+          });
+        }
+
+        const isPasswordValid = await bcrypt.compare(password, user.password);
+        if (
+          !isPasswordValid ||
+          !verifyTwoFactorCode(user.twoFactor.secret, code)
+        ) {
+          return res.status(400).json({
+            code: "Error-01-0022",
+            status: "Error",
+            message: "Invalid password or two-factor code.",
+          });
+        }
+
+        user.set("twoFactor", { enabled: false });
+        await user.save();
+
+        res.status(200).json({
+          code: "Success-01-0016",
+          status: "Success",
+          message: "Two-factor authentication turned off",
+        });
+      } catch (error) {
+        console.error("Error disabling two-factor authentication:", error);
+        res.status(500).json({
+          code: "Error-03-0001",
+          status: "Error",
+          message: "Internal server error.",
+        });
+      }
+    }
+  )
+);
+
+/**
+ * @swagger
+ * /api/v1/admin/users/{userId}/2fa:
+ *   delete:
+ *     summary: Reset another user's 2FA
+ *     description: >
+ *       Requires the `user:2fa:reset` permission. For users who lost their
+ *       authenticator and backup codes. Signs the user out everywhere; if
+ *       their role requires 2FA they must set it up again after logging in.
+ *       The reset is recorded in the user's audit log.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: userId
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: 2FA reset.
+ *       400:
+ *         description: Tried to reset one's own 2FA.
+ *       403:
+ *         description: Missing the required permission.
+ *       404:
+ *         description: User not found.
+ *       500:
+ *         description: Internal server error.
+ */
+
+auth.delete(
+  "/admin/users/:userId/2fa",
+  verifyJWT,
+  requirePermission("user:2fa:reset"),
+  validated({ params: { userId: string() } }, async (req, res) => {
+    const { userId } = req.params;
+
+    if (userId === req.user.userId) {
+      return res.status(400).json({
+        code: "Error-01-0027",
         status: "Error",
-        message: "User not found. The token may be invalid.",
+        message: "You cannot reset your own two-factor authentication.",
       });
     }
 
-    user.password = await bcrypt.hash(newPassword, 10);
-    await user.save();
+    try {
+      const previous = await User.findOneAndUpdate(
+        { userId },
+        { $set: { twoFactor: { enabled: false } } }
+      );
+      if (!previous) {
+        return res.status(404).json({
+          code: "Error-02-0003",
+          status: "Error",
+          message: "User not found.",
+        });
+      }
 
-    return res.status(200).json({
-      code: "Success-01-0003",
-      status: "Success",
-      message:
-        "Password reset successful. You can now log in with your new password.",
-    });
-  } catch (error) {
-    console.error("Error resetting password:", error);
-    return res.status(500).json({
-      code: "Error-03-0001",
-      status: "Error",
-      message: "Internal server error. Please try again later.",
-    });
-  }
-});
+      await revokeUserSessions(userId, "two-factor-reset");
+      await recordUserAudit(userId, req.user.userId, "two-factor-reset", [
+        {
+          field: "twoFactor.enabled",
+          from: !!previous.twoFactor?.enabled,
+          to: false,
+        },
+      ]);
+
+      res.status(200).json({
+        code: "Success-01-0017",
+        status: "Success",
+        message: "Two-factor authentication reset",
+      });
+    } catch (error) {
+      console.error("Error resetting two-factor authentication:", error);
+      res.status(500).json({
+        code: "Error-03-0001",
+        status: "Error",
+        message: "Internal server error.",
+      });
+    }
+  })
+);
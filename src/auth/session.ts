@@ -0,0 +1,165 @@
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import { Request, Response } from "express";
+import { v4 as uuidv4 } from "uuid";
+import { Session } from "./model";
+
+const ACCESS_TOKEN_TTL = "15m";
+const ACCESS_TOKEN_TTL_MS = 15 * 60 * 1000;
+const REFRESH_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+const REFRESH_COOKIE_PATH = "/api/v1/auth";
+
+interface TokenUser {
+  userId: string;
+  email: string;
+  role: string;
+}
+
+export function hashToken(token: string) {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+function generateRefreshToken() {
+  return crypto.randomBytes(48).toString("hex");
+}
+
+export function signAccessToken(
+  user: TokenUser,
+  sessionId: string,
+  twoFactor: boolean = false
+) {
+  return jwt.sign(
+    {
+      userId: user.userId,
+      email: user.email,
+      role: user.role,
+      sessionId,
+      twoFactor,
+    },
+    process.env.JWT_SECRET!,
+    { expiresIn: ACCESS_TOKEN_TTL }
+  );
+}
+
+// Starts a new session and returns the refresh token, which is only ever
+// stored as a hash
+export async function createSession(
+  user: TokenUser,
+  req: Request,
+  twoFactorVerified: boolean = false
+) {
+  const refreshToken = generateRefreshToken();
+  const session = await Session.create({
+    sessionId: uuidv4(),
+    userId: user.userId,
+    twoFactorVerified,
+    refreshTokenHash: hashToken(refreshToken),
+    userAgent: req.headers["user-agent"],
+    ip: req.ip,
+    expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+  });
+
+  return { session, refreshToken };
+}
+
+// Swaps the presented refresh token for a new one. Presenting a token that was
+// already rotated means it was stolen, so the whole session is revoked.
+export async function rotateSession(refreshToken: string) {
+  const tokenHash = hashToken(refreshToken);
+  const session = await Session.findOne({ refreshTokenHash: tokenHash });
+
+  if (!session) {
+    await Session.updateOne(
+      { previousRefreshTokenHash: tokenHash, revokedAt: null },
+      { $set: { revokedAt: new Date(), revokedReason: "token-reuse" } }
+    );
+    return null;
+  }
+
+  if (session.revokedAt || session.expiresAt <= new Date()) {
+    return null;
+  }
+
+  const newRefreshToken = generateRefreshToken();
+  session.previousRefreshTokenHash = tokenHash;
+  session.refreshTokenHash = hashToken(newRefreshToken);
+  session.lastUsedAt = new Date();
+  await session.save();
+
+  return { session, refreshToken: newRefreshToken };
+}
+
+export async function revokeSession(
+  userId: string,
+  sessionId: string,
+  reason: string
+) {
+  return Session.updateOne(
+    { userId, sessionId, revokedAt: null },
+    { $set: { revokedAt: new Date(), revokedReason: reason } }
+  );
+}
+
+// Revokes every active session of a user, optionally keeping one of them
+export async function revokeUserSessions(
+  userId: string,
+  reason: string,
+  exceptSessionId?: string
+) {
+  return Session.updateMany(
+    {
+      userId,
+      revokedAt: null,
+      ...(exceptSessionId && { sessionId: { $ne: exceptSessionId } }),
+    },
+    { $set: { revokedAt: new Date(), revokedReason: reason } }
+  );
+}
+
+export async function isSessionActive(sessionId: string) {
+  const session = await Session.exists({
+    sessionId,
+    revokedAt: null,
+    expiresAt: { $gt: new Date() },
+  });
+  return !!session;
+}
+
+export function setAccessTokenCookie(res: Response, accessToken: string) {
+  res.cookie("token", accessToken, {
+    // httpOnly: true,
+    secure: true,
+    maxAge: ACCESS_TOKEN_TTL_MS,
+    sameSite: "strict",
+  });
+}
+
+export function setAuthCookies(
+  res: Response,
+  accessToken: string,
+  refreshToken: string
+) {
+  setAccessTokenCookie(res, accessToken);
+
+  res.cookie("refreshToken", refreshToken, {
+    httpOnly: true,
+    secure: true,
+    maxAge: REFRESH_TOKEN_TTL_MS,
+    sameSite: "strict",
+    path: REFRESH_COOKIE_PATH,
+  });
+}
+
+export function clearAuthCookies(res: Response) {
+  res.clearCookie("token", {
+    secure: true,
+    sameSite: "strict",
+  });
+
+  res.clearCookie("refreshToken", {
+    httpOnly: true,
+    secure: true,
+    sameSite: "strict",
+    path: REFRESH_COOKIE_PATH,
+  });
+}
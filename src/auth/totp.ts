@@ -0,0 +1,57 @@
+import crypto from "crypto";
+
+// Time-based one-time passwords (RFC 6238) over HMAC-SHA1
+
+export function generateTotp(
+  secret: Buffer,
+  time: number = Date.now(),
+  stepSeconds: number = 30,
+  digits: number = 6
+) {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(Math.floor(time / 1000 / stepSeconds)));
+
+  const hmac = crypto.createHmac("sha1", secret).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+
+  return (binary % 10 ** digits).toString().padStart(digits, "0");
+}
+
+// Accepts the code of the current step or of the `window` steps before it,
+// so a code read just before it rotated still works
+export function verifyTotp(
+  secret: Buffer,
+  code: string,
+  time: number = Date.now(),
+  stepSeconds: number = 30,
+  digits: number = 6,
+  window: number = 1
+) {
+  if (typeof code !== "string" || code.length !== digits) {
+    return false;
+  }
+
+  for (let step = 0; step <= window; step++) {
+    const expected = generateTotp(
+      secret,
+      time - step * stepSeconds * 1000,
+      stepSeconds,
+      digits
+    );
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(code))) {
+      return true;
+    }
+  }
+  return false;
+}
+
+// Milliseconds until the code for `time` is replaced
+export function totpExpiresIn(time: number = Date.now(), stepSeconds = 30) {
+  const stepMs = stepSeconds * 1000;
+  return stepMs - (time % stepMs);
+}
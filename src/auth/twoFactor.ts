@@ -0,0 +1,128 @@
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import { verifyTotp } from "./totp";
+import { hashToken } from "./session";
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+const SECRET_BYTES = 20;
+const BACKUP_CODE_COUNT = 10;
+const CHALLENGE_TOKEN_TTL = "5m";
+const CHALLENGE_TOKEN_AUDIENCE = "two-factor-login";
+
+export const TOTP_ISSUER = process.env.TOTP_ISSUER || "Training Center";
+
+// Roles that cannot use admin features until they have turned on 2FA
+export const TWO_FACTOR_REQUIRED_ROLES = (
+  process.env.TWO_FACTOR_REQUIRED_ROLES ?? "admin,superadmin"
+)
+  .split(",")
+  .map((role) => role.trim())
+  .filter(Boolean);
+
+export function isTwoFactorRequired(role: string) {
+  return TWO_FACTOR_REQUIRED_ROLES.includes(role);
+}
+
+// RFC 4648 base32 without padding, as authenticator apps expect
+export function base32Encode(buffer: Buffer) {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+export function base32Decode(input: string) {
+  const cleaned = input.toUpperCase().replace(/=+$/, "").replace(/\s/g, "");
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error("Invalid base32 character");
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+export function generateTwoFactorSecret() {
+  return base32Encode(crypto.randomBytes(SECRET_BYTES));
+}
+
+// The URI authenticator apps read from a QR code
+export function otpauthUri(secret: string, accountName: string) {
+  const label = encodeURIComponent(`${TOTP_ISSUER}:${accountName}`);
+  // Spaces must be %20 rather than URLSearchParams' "+" for some apps
+  const params = Object.entries({
+    secret,
+    issuer: TOTP_ISSUER,
+    algorithm: "SHA1",
+    digits: "6",
+    period: "30",
+  })
+    .map(([key, value]) => `${key}=${encodeURIComponent(value)}`)
+    .join("&");
+  return `otpauth://totp/${label}?${params}`;
+}
+
+export function verifyTwoFactorCode(secret: string, code: unknown) {
+  if (typeof code !== "string") return false;
+  return verifyTotp(base32Decode(secret), code.replace(/\s/g, ""));
+}
+
+// Backup codes are shown to the user once; only their hashes are kept
+export function generateBackupCodes() {
+  const codes = Array.from({ length: BACKUP_CODE_COUNT }, () => {
+    const hex = crypto.randomBytes(5).toString("hex");
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+  return { codes, hashes: codes.map(hashBackupCode) };
+}
+
+export function hashBackupCode(code: string) {
+  return hashToken(
+    code
+      .trim()
+      .toLowerCase()
+      .replace(/[^0-9a-f]/g, "")
+  );
+}
+
+// Issued after a correct password when the user still has to enter a code
+export function signTwoFactorChallenge(userId: string) {
+  return jwt.sign({ userId }, process.env.JWT_SECRET!, {
+    expiresIn: CHALLENGE_TOKEN_TTL,
+    audience: CHALLENGE_TOKEN_AUDIENCE,
+  });
+}
+
+// The userId of a valid challenge token, or null
+export function verifyTwoFactorChallenge(token: string) {
+  try {
+    const payload = jwt.verify(token, process.env.JWT_SECRET!, {
+      audience: CHALLENGE_TOKEN_AUDIENCE,
+    }) as jwt.JwtPayload;
+    return typeof payload.userId === "string" ? payload.userId : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,87 @@
+import crypto from "crypto";
+import { EmailVerification } from "./model";
+import { hashToken } from "./session";
+import { User } from "../users/model";
+import { notifyUser } from "../notifications/notify";
+
+type UserDocument = InstanceType<typeof User>;
+
+const VERIFICATION_TTL_HOURS = 24;
+// At most this many links per user in a rolling day, at least a minute apart
+const MAX_SENDS_PER_DAY = 5;
+const MIN_RESEND_INTERVAL_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Verification is kept apart from status, which tracks the user's license.
+// Accounts created before verification existed are given emailVerifiedAt by
+// scripts/backfill-email-verification.ts.
+export function isEmailVerified(user: { emailVerifiedAt?: Date | null }) {
+  return !!user.emailVerifiedAt;
+}
+
+// Milliseconds until another link may be sent to the user, or 0
+export async function resendAvailableIn(
+  userId: string,
+  now: Date = new Date()
+) {
+  const recent = await EmailVerification.find({
+    userId,
+    createdAt: { $gt: new Date(now.getTime() - DAY_MS) },
+  })
+    .sort({ createdAt: -1 })
+    .select({ createdAt: 1 });
+
+  if (!recent.length) return 0;
+
+  const latest = recent[0].createdAt.getTime();
+  const waits = [latest + MIN_RESEND_INTERVAL_MS - now.getTime()];
+  if (recent.length >= MAX_SENDS_PER_DAY) {
+    const oldest = recent[MAX_SENDS_PER_DAY - 1].createdAt.getTime();
+    waits.push(oldest + DAY_MS - now.getTime());
+  }
+  return Math.max(0, ...waits);
+}
+
+// Creates a new verification link and emails it to the user
+export async function sendVerificationEmail(user: UserDocument) {
+  const token = crypto.randomBytes(32).toString("hex");
+  await EmailVerification.create({
+    tokenHash: hashToken(token),
+    userId: user.userId,
+    email: user.email,
+    expiresAt: new Date(Date.now() + VERIFICATION_TTL_HOURS * 60 * 60 * 1000),
+  });
+
+  await notifyUser(user, "email-verification", {
+    name: user.name,
+    verifyUrl: `${process.env.FRONTEND_URL}/verify-email?token=${token}`,
+    expiresInHours: VERIFICATION_TTL_HOURS,
+  });
+}
+
+// Consumes a verification token and marks its user verified. Returns null when
+// the token is unknown, used, expired or was issued for an old email address.
+export async function verifyEmail(token: string, now: Date = new Date()) {
+  const verification = await EmailVerification.findOneAndUpdate(
+    { tokenHash: hashToken(token), usedAt: null, expiresAt: { $gt: now } },
+    { $set: { usedAt: now } }
+  );
+  if (!verification) return null;
+
+  const user = await User.findOne({
+    userId: verification.userId,
+    email: verification.email,
+  });
+  if (!user) return null;
+
+  user.emailVerifiedAt = now;
+  await user.save();
+
+  // The remaining links for this user are no longer needed
+  await EmailVerification.updateMany(
+    { userId: user.userId, usedAt: null },
+    { $set: { usedAt: now } }
+  );
+
+  return user;
+}
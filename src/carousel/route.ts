@@ -5,7 +5,8 @@ import dotenv from "dotenv";
 import cloudinary from "cloudinary";
 import streamifier from "streamifier";
 import { Carousel } from "./model";
-import { verifyJWT } from "../../middleware/middleware";
+import { requirePermission, verifyJWT } from "../../middleware/middleware";
+import { validated } from "../../middleware/validate";
 dotenv.config();
 
 export const carousel = express();
@@ -24,10 +25,6 @@ interface ResponseObject {
   message?: string;
 }
 
-interface MulterRequest extends Request {
-  file?: Express.Multer.File;
-}
-
 /**
  * @swagger
  * /api/v1/carousels:
@@ -105,6 +102,7 @@ carousel.get("/carousels", async (req: Request, res: Response) => {
  * /api/v1/createCarousel:
  *   post:
  *     summary: Create a new carousel
+ *     description: Requires the `carousel:manage` permission.
  *     tags: [Carousel]
  *     security:
  *       - bearerAuth: []
@@ -141,21 +139,11 @@ carousel.get("/carousels", async (req: Request, res: Response) => {
  *                     imageUrl:
  *                       type: string
  *       400:
- *         description: Missing required image file.
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 code:
- *                   type: string
- *                   example: Error-01-0002
- *                 status:
- *                   type: string
- *                   example: Error
- *                 message:
- *                   type: string
- *                   example: Missing required image file.
+ *         $ref: '#/components/responses/InvalidRequest'
+ *       415:
+ *         $ref: '#/components/responses/UnsupportedMediaType'
+ *       403:
+ *         description: Missing the required permission.
  *       500:
  *         description: Failed to upload image to Cloudinary.
  *         content:
@@ -177,70 +165,59 @@ carousel.get("/carousels", async (req: Request, res: Response) => {
 // Create new carousel
 carousel.post(
   "/createCarousel",
-  upload.single("carouselImage"),
   verifyJWT,
-  async (req: MulterRequest, res: Response) => {
-    const contentType = req.headers["content-type"];
-
-    // Check for valid content type
-    if (!contentType || !contentType.includes("multipart/form-data")) {
-      return res.status(400).json({
-        code: "Error-01-0001",
-        status: "Error",
-        message: "Invalid Headers",
-      });
-    }
-
-    const file = req.file;
-    if (!file) {
-      return res.status(400).json({
-        code: "Error-01-0002",
-        status: "Error",
-        message: "Missing required image file.",
-      });
-    }
-
-    try {
-      const stream = streamifier.createReadStream(file.buffer);
-      const uploadResponse = await new Promise<any>((resolve, reject) => {
-        const uploadStream = cloudinary.v2.uploader.upload_stream(
-          {
-            resource_type: "image",
-            public_id: `carousel_${Date.now()}`,
-            folder: "CarouselImage",
-          },
-          (error, result) => {
-            if (error) {
-              return reject(error);
+  requirePermission("carousel:manage"),
+  upload.single("carouselImage"),
+  validated(
+    {
+      contentType: "multipart",
+      file: { field: "carouselImage", required: true },
+    },
+    async (req, res) => {
+      const file = req.file!;
+
+      try {
+        const stream = streamifier.createReadStream(file.buffer);
+        const uploadResponse = await new Promise<any>((resolve, reject) => {
+          const uploadStream = cloudinary.v2.uploader.upload_stream(
+            {
+              resource_type: "image",
+              public_id: `carousel_${Date.now()}`,
+              folder: "CarouselImage",
+            },
+            (error, result) => {
+              if (error) {
+                return reject(error);
+              }
+              resolve(result);
             }
-            resolve(result);
-          }
-        );
-
-        stream.pipe(uploadStream);
-      });
-
-      const carouselId = uuidv4();
-      const carouselData = {
-        carouselId,
-        carouselImageUrl: uploadResponse.secure_url,
-      };
-
-      await Carousel.collection.insertOne(carouselData);
-
-      const response: ResponseObject = {
-        code: "Success-01-0001",
-        status: "Success",
-        message: "Carousel created successfully.",
-      };
-      return res.status(200).json(response);
-    } catch (error) {
-      console.error("Error uploading image to Cloudinary:", error);
-      return res.status(500).json({
-        code: "Error-01-0005",
-        status: "Error",
-        message: "Failed to upload image to Cloudinary.",
-      });
+          );
+
+          stream.pipe(uploadStream);
+        });
+
+        const carouselId = uuidv4();
+        const carouselData = {
+          carouselId,
+          carouselImageUrl: uploadResponse.secure_url,
+        };
+
+        await Carousel.collection.insertOne(carouselData);
+
+        const response: ResponseObject = {
+          code: "Success-01-0001",
+          status: "Success",
+          message: "Carousel created successfully.",
+        };
+        return res.status(200).json(response);
+      } catch (error) {
+        console.error("Error uploading image to Cloudinary:", error);
+        return res.status(500).json({
+          code: "Error-01-0005",
+          status: "Error",
+          message: "Failed to upload image to Cloudinary.",
+        });
+      }
     }
-  }
+  )
 );
@@ -0,0 +1,277 @@
+import crypto from "crypto";
+import PDFDocument from "pdfkit";
+import QRCode from "qrcode";
+import { Certificate } from "./model";
+import { Course } from "../course/model";
+import { User } from "../users/model";
+
+type UserDocument = InstanceType<typeof User>;
+type CourseDocument = InstanceType<typeof Course>;
+type CertificateDocument = InstanceType<typeof Certificate>;
+
+// The Thai and Latin glyphs of Sarabun ship as separate font subsets
+const FONT_DIR = require
+  .resolve("@fontsource/sarabun/package.json")
+  .replace(/package\.json$/, "files/");
+const FONTS = {
+  thai: `${FONT_DIR}sarabun-thai-400-normal.woff`,
+  thaiBold: `${FONT_DIR}sarabun-thai-700-normal.woff`,
+  latin: `${FONT_DIR}sarabun-latin-400-normal.woff`,
+  latinBold: `${FONT_DIR}sarabun-latin-700-normal.woff`,
+};
+
+// A dedicated secret only: signing with another one, such as JWT_SECRET,
+// would void every issued certificate once that secret is rotated
+function certificateSecret() {
+  const secret = process.env.CERTIFICATE_SECRET;
+  if (!secret) {
+    throw new Error("CERTIFICATE_SECRET is not set");
+  }
+  return secret;
+}
+
+// Stops the app at startup when the secret is missing, instead of failing
+// the first approval or verification
+export function checkCertificateSecret() {
+  certificateSecret();
+}
+
+function generateSerial(issuedAt: Date) {
+  const random = crypto.randomBytes(5).toString("hex").toUpperCase();
+  return `CERT-${issuedAt.getUTCFullYear()}-${random}`;
+}
+
+// HMAC over everything printed on the certificate, so a copy with an edited
+// name, course or date no longer verifies
+export function signCertificate(certificate: {
+  serial: string;
+  userId: string;
+  courseId: string;
+  name: string;
+  courseName: string;
+  hours: number;
+  courseDate: Date;
+  issuedAt: Date;
+}) {
+  const payload = [
+    certificate.serial,
+    certificate.userId,
+    certificate.courseId,
+    certificate.name,
+    certificate.courseName,
+    certificate.hours,
+    new Date(certificate.courseDate).toISOString(),
+    new Date(certificate.issuedAt).toISOString(),
+  ].join("|");
+
+  return crypto
+    .createHmac("sha256", certificateSecret())
+    .update(payload)
+    .digest("hex");
+}
+
+// A certificate is authentic when its stored fields still match its
+// signature and, if one is given, the signature printed on the copy
+export function isAuthentic(
+  certificate: CertificateDocument,
+  presentedSignature?: string
+) {
+  const expected = Buffer.from(signCertificate(certificate), "hex");
+  const candidates = [certificate.signature, presentedSignature].filter(
+    (signature): signature is string => signature !== undefined
+  );
+
+  return candidates.every((signature) => {
+    const actual = Buffer.from(signature, "hex");
+    return (
+      actual.length === expected.length &&
+      crypto.timingSafeEqual(actual, expected)
+    );
+  });
+}
+
+export function verificationUrl(certificate: CertificateDocument) {
+  const baseUrl =
+    process.env.PUBLIC_API_URL ||
+    `http://localhost:${process.env.PORT || 50100}`;
+  return `${baseUrl}/api/v1/certificates/${certificate.serial}/verify?signature=${certificate.signature}`;
+}
+
+// Issues the certificate for a completed course. Approving the same user
+// twice returns the certificate issued the first time, with created false, so
+// only one of concurrent approvals sees created true.
+export async function issueCertificate(
+  user: UserDocument,
+  course: CourseDocument,
+  issuedBy?: string
+): Promise<{ certificate: CertificateDocument; created: boolean }> {
+  const existing = await Certificate.findOne({
+    userId: user.userId,
+    courseId: course.courseId,
+  });
+  if (existing) {
+    return { certificate: existing, created: false };
+  }
+
+  for (let attempt = 0; ; attempt++) {
+    const issuedAt = new Date();
+    const fields = {
+      serial: generateSerial(issuedAt),
+      userId: user.userId,
+      courseId: course.courseId,
+      name: user.name,
+      courseName: course.courseName,
+      hours: course.hours,
+      courseDate: course.courseDate,
+      issuedAt,
+    };
+
+    try {
+      const certificate = await Certificate.create({
+        ...fields,
+        issuedBy,
+        signature: signCertificate(fields),
+      });
+      return { certificate, created: true };
+    } catch (error: any) {
+      if (error?.code !== 11000) throw error;
+
+      // Lost a race with a concurrent approval of the same user
+      if (error.keyPattern?.userId) {
+        const issued = await Certificate.findOne({
+          userId: user.userId,
+          courseId: course.courseId,
+        });
+        return { certificate: issued!, created: false };
+      }
+      // Serial collision; try another one
+      if (attempt >= 2) throw error;
+    }
+  }
+}
+
+const THAI_RUN = /([\u0E00-\u0E7F]+)/;
+
+// Writes a line of text centred on centreX (the middle of the page by
+// default), switching between the Thai and Latin fonts for each run of text
+function centredText(
+  doc: PDFKit.PDFDocument,
+  text: string,
+  y: number,
+  size: number,
+  { bold = false, centreX = doc.page.width / 2 } = {}
+) {
+  const runs = text
+    .split(THAI_RUN)
+    .filter(Boolean)
+    .map((run) => {
+      const script = THAI_RUN.test(run) ? "thai" : "latin";
+      return { run, font: bold ? `${script}Bold` : script };
+    });
+
+  doc.fontSize(size);
+  const width = runs.reduce(
+    (total, { run, font }) => total + doc.font(font).widthOfString(run),
+    0
+  );
+
+  let x = centreX - width / 2;
+  for (const { run, font } of runs) {
+    doc.font(font).text(run, x, y, { lineBreak: false });
+    x += doc.widthOfString(run);
+  }
+}
+
+// Course dates are stored as Thai local time, so they are formatted as UTC
+function formatDate(date: Date, locale: "th-TH" | "en-GB") {
+  return new Date(date).toLocaleDateString(locale, {
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+export async function renderCertificatePdf(
+  certificate: CertificateDocument
+): Promise<Buffer> {
+  const qrCode = await QRCode.toBuffer(verificationUrl(certificate), {
+    margin: 1,
+    width: 240,
+  });
+
+  const doc = new PDFDocument({
+    size: "A4",
+    layout: "landscape",
+    margin: 0,
+    info: {
+      Title: `Certificate ${certificate.serial}`,
+      Subject: certificate.courseName,
+    },
+  });
+  for (const [name, path] of Object.entries(FONTS)) {
+    doc.registerFont(name, path);
+  }
+
+  const chunks: Buffer[] = [];
+  doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  const { width, height } = doc.page;
+  doc
+    .lineWidth(3)
+    .rect(24, 24, width - 48, height - 48)
+    .stroke("#1f3a5f");
+
+  centredText(doc, "ประกาศนียบัตร", 70, 34, { bold: true });
+  centredText(doc, "Certificate of Completion", 118, 22, { bold: true });
+
+  centredText(doc, "ขอมอบประกาศนียบัตรฉบับนี้เพื่อแสดงว่า", 175, 15);
+  centredText(doc, "This is to certify that", 197, 13);
+  centredText(doc, certificate.name, 228, 26, { bold: true });
+
+  centredText(doc, "ได้ผ่านการอบรมหลักสูตร", 280, 15);
+  centredText(doc, "has successfully completed the course", 302, 13);
+  centredText(doc, certificate.courseName, 330, 22, { bold: true });
+
+  centredText(
+    doc,
+    `จำนวน ${certificate.hours} ชั่วโมง เมื่อวันที่ ${formatDate(
+      certificate.courseDate,
+      "th-TH"
+    )}`,
+    378,
+    15
+  );
+  centredText(
+    doc,
+    `${certificate.hours} hours, held on ${formatDate(
+      certificate.courseDate,
+      "en-GB"
+    )}`,
+    400,
+    13
+  );
+
+  doc.font("latin").fontSize(10);
+  doc.text(`Serial: ${certificate.serial}`, 60, height - 95, {
+    lineBreak: false,
+  });
+  doc.text(
+    `Issued: ${formatDate(certificate.issuedAt, "en-GB")}`,
+    60,
+    height - 80,
+    { lineBreak: false }
+  );
+
+  doc.image(qrCode, width - 160, height - 160, { width: 90 });
+  centredText(doc, "สแกนเพื่อตรวจสอบ / Scan to verify", height - 65, 8, {
+    centreX: width - 115,
+  });
+
+  doc.end();
+  return done;
+}
@@ -0,0 +1,23 @@
+import mongoose from "mongoose";
+
+const certificateSchema = new mongoose.Schema(
+  {
+    serial: { type: String, required: true, unique: true },
+    userId: { type: String, required: true, index: true },
+    courseId: { type: String, required: true },
+    // Copied at issue time so later edits to the user or course do not change it
+    name: { type: String, required: true },
+    courseName: { type: String, required: true },
+    hours: { type: Number, required: true },
+    courseDate: { type: Date, required: true },
+    issuedAt: { type: Date, required: true },
+    issuedBy: { type: String }, // admin who approved the user
+    signature: { type: String, required: true },
+  },
+  { timestamps: true }
+);
+
+// One certificate per user and course
+certificateSchema.index({ userId: 1, courseId: 1 }, { unique: true });
+
+export const Certificate = mongoose.model("certificates", certificateSchema);
@@ -0,0 +1,271 @@
+import express, { Request, Response } from "express";
+import { Certificate } from "./model";
+import {
+  isAuthentic,
+  renderCertificatePdf,
+  verificationUrl,
+} from "./certificate";
+import {
+  hasPermission,
+  requirePermission,
+  verifyJWT,
+} from "../../middleware/middleware";
+import { optional, string, validated } from "../../middleware/validate";
+
+export const certificate = express.Router();
+
+/**
+ * @swagger
+ * /api/v1/certificates:
+ *   get:
+ *     summary: Retrieve the certificates of the logged-in user
+ *     description: Requires the `certificate:read` permission.
+ *     tags: [Certificates]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Certificates retrieved successfully.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: Success-05-0001
+ *                 status:
+ *                   type: string
+ *                   example: Success
+ *                 message:
+ *                   type: string
+ *                   example: Certificates retrieved successfully
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *       403:
+ *         description: Missing the required permission.
+ *       500:
+ *         description: Internal server error.
+ */
+
+certificate.get(
+  "/certificates",
+  verifyJWT,
+  requirePermission("certificate:read"),
+  async (req: Request, res: Response) => {
+    try {
+      const certificates = await Certificate.find({
+        userId: req.user.userId,
+      }).sort({ issuedAt: -1 });
+
+      res.status(200).json({
+        code: "Success-05-0001",
+        status: "Success",
+        message: "Certificates retrieved successfully",
+        data: certificates.map((issued) => ({
+          ...issued.toObject(),
+          verificationUrl: verificationUrl(issued),
+        })),
+      });
+    } catch (error) {
+      console.error("Error fetching certificates:", error);
+      res.status(500).json({
+        code: "Error-03-0001",
+        status: "Error",
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/certificates/{serial}/pdf:
+ *   get:
+ *     summary: Download a certificate as a PDF
+ *     description: >
+ *       Requires the `certificate:read` permission. Users can only download
+ *       their own certificates unless they also have `certificate:read:all`.
+ *     tags: [Certificates]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: serial
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The certificate PDF.
+ *         content:
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       403:
+ *         description: Missing the required permission.
+ *       404:
+ *         description: Certificate not found.
+ *       500:
+ *         description: Internal server error.
+ */
+
+certificate.get(
+  "/certificates/:serial/pdf",
+  verifyJWT,
+  requirePermission("certificate:read"),
+  validated({ params: { serial: string() } }, async (req, res) => {
+    try {
+      const issued = await Certificate.findOne({ serial: req.params.serial });
+
+      // Someone else's certificate is reported as missing, not forbidden
+      if (
+        !issued ||
+        (issued.userId !== req.user.userId &&
+          !hasPermission(req.user.role, "certificate:read:all"))
+      ) {
+        return res.status(404).json({
+          code: "Error-05-0001",
+          status: "Error",
+          message: "Certificate not found",
+        });
+      }
+
+      const pdf = await renderCertificatePdf(issued);
+
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="certificate-${issued.serial}.pdf"`
+      );
+      res.status(200).send(pdf);
+    } catch (error) {
+      console.error("Error generating certificate PDF:", error);
+      res.status(500).json({
+        code: "Error-03-0001",
+        status: "Error",
+        message: "Internal server error",
+      });
+    }
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/certificates/{serial}/verify:
+ *   get:
+ *     summary: Check that a certificate is authentic
+ *     description: >
+ *       Public endpoint for employers and other third parties. The QR code
+ *       printed on every certificate links here with the certificate's
+ *       signature; a certificate is valid when the signature matches the
+ *       details on record.
+ *     tags: [Certificates]
+ *     parameters:
+ *       - name: serial
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: CERT-2024-9F3A61C2D4
+ *       - name: signature
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: >
+ *           The certificate exists. `data.valid` is false if the signature
+ *           does not match.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: Success-05-0002
+ *                 status:
+ *                   type: string
+ *                   example: Success
+ *                 message:
+ *                   type: string
+ *                   example: Certificate is valid
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     valid:
+ *                       type: boolean
+ *                     serial:
+ *                       type: string
+ *                     name:
+ *                       type: string
+ *                     courseName:
+ *                       type: string
+ *                     hours:
+ *                       type: number
+ *                     courseDate:
+ *                       type: string
+ *                       format: date-time
+ *                     issuedAt:
+ *                       type: string
+ *                       format: date-time
+ *       404:
+ *         description: No certificate with this serial was issued.
+ *       500:
+ *         description: Internal server error.
+ */
+
+certificate.get(
+  "/certificates/:serial/verify",
+  validated(
+    { params: { serial: string() }, query: { signature: optional(string()) } },
+    async (req, res) => {
+      const { signature } = req.query;
+
+      try {
+        const issued = await Certificate.findOne({ serial: req.params.serial });
+        if (!issued) {
+          return res.status(404).json({
+            code: "Error-05-0001",
+            status: "Error",
+            message: "Certificate not found",
+            data: { valid: false },
+          });
+        }
+
+        const valid = isAuthentic(issued, signature);
+
+        res.status(200).json({
+          code: valid ? "Success-05-0002" : "Error-05-0002",
+          status: valid ? "Success" : "Error",
+          message: valid
+            ? "Certificate is valid"
+            : "Certificate signature does not match",
+          data: valid
+            ? {
+                valid,
+                serial: issued.serial,
+                name: issued.name,
+                courseName: issued.courseName,
+                hours: issued.hours,
+                courseDate: issued.courseDate,
+                issuedAt: issued.issuedAt,
+              }
+            : { valid, serial: issued.serial },
+        });
+      } catch (error) {
+        console.error("Error verifying certificate:", error);
+        res.status(500).json({
+          code: "Error-03-0001",
+          status: "Error",
+          message: "Internal server error",
+        });
+      }
+    }
+  )
+);
@@ -1,64 +1,346 @@
 import express from "express";
-import { verifyJWT } from "../../middleware/middleware";
+import Stripe from "stripe";
+import { v4 as uuidv4 } from "uuid";
+import { requirePermission, verifyJWT } from "../../middleware/middleware";
+import { object, string, validated } from "../../middleware/validate";
+import { Course } from "../course/model";
+import { User } from "../users/model";
+import { Order } from "../orders/model";
+import { refundOrder } from "../orders/refund";
+import { checkRegistration, enrollUser } from "../course/enrollment";
+import { notifyUser } from "../notifications/notify";
 
 export const checkout = express.Router();
 const stripe = require("stripe")(process.env.STRIPE_API_KEY);
 const FRONTEND_URL = process.env.FRONTEND_URL;
+const STRIPE_WEBHOOK_SECRET = process.env.STRIPE_WEBHOOK_SECRET;
 
-checkout.post("/create-checkout-session", verifyJWT, async (req, res) => {
-  const { stripePriceId, metadata } = req.body;
+checkout.post(
+  "/create-checkout-session",
+  verifyJWT,
+  requirePermission("course:register"),
+  validated(
+    { body: { metadata: object({ userId: string(), courseId: string() }) } },
+    async (req, res) => {
+      const { metadata } = req.body;
 
-  if (!stripePriceId || !metadata || !metadata.userId || !metadata.courseId) {
-    return res.status(400).json({ error: "Missing required fields" });
-  }
+      if (metadata.userId !== req.user.userId) {
+        return res
+          .status(403)
+          .json({ error: "Checkout can only be created for yourself" });
+      }
 
-  try {
-    const session = await stripe.checkout.sessions.create({
-      ui_mode: "embedded",
-      line_items: [
-        {
-          price: stripePriceId,
-          quantity: 1,
-        },
-      ],
-      mode: "payment",
-      return_url: `${FRONTEND_URL}/success?session_id={CHECKOUT_SESSION_ID}`,
-      metadata, // Pass userId and courseId
-    });
+      try {
+        const course = await Course.findOne({ courseId: metadata.courseId });
+        const user = await User.findOne({ userId: metadata.userId });
+        if (!course || !user) {
+          return res.status(404).json({ error: "User or course not found" });
+        }
 
-    res.json({ sessionId: session.id });
-  } catch (error) {
-    console.error("Error creating checkout session:", error);
-    res.status(500).send({ error: "Failed to create checkout session" });
-  }
-});
+        // Refuse to take money for a seat the webhook could not hand out
+        const registrationError = checkRegistration(user, course);
+        if (registrationError) {
+          return res
+            .status(registrationError.status)
+            .json({ error: registrationError.message });
+        }
 
-checkout.get("/checkout-session/:sessionId", async (req, res) => {
-  const { sessionId } = req.params;
+        const session = await stripe.checkout.sessions.create({
+          ui_mode: "embedded",
+          line_items: [
+            {
+              // Always charge the course's current price, not one sent by the client
+              price: course.stripePriceId,
+              quantity: 1,
+            },
+          ],
+          mode: "payment",
+          return_url: `${FRONTEND_URL}/success?session_id={CHECKOUT_SESSION_ID}`,
+          metadata, // Pass userId and courseId
+        });
 
-  try {
-    const session = await stripe.checkout.sessions.retrieve(sessionId);
+        await Order.create({
+          orderId: uuidv4(),
+          userId: metadata.userId,
+          courseId: metadata.courseId,
+          stripeSessionId: session.id,
+          amount: session.amount_total / 100, // Convert from satangs
+          currency: session.currency,
+          status: "pending",
+        });
+
+        res.json({ sessionId: session.id });
+      } catch (error) {
+        console.error("Error creating checkout session:", error);
+        res.status(500).send({ error: "Failed to create checkout session" });
+      }
+    }
+  )
+);
+
+checkout.get(
+  "/checkout-session/:sessionId",
+  validated({ params: { sessionId: string() } }, async (req, res) => {
+    const { sessionId } = req.params;
 
-    if (!session) {
-      return res.status(404).json({
-        code: "ERROR-00-0007",
+    try {
+      const session = await stripe.checkout.sessions.retrieve(sessionId);
+
+      if (!session) {
+        return res.status(404).json({
+          code: "ERROR-00-0007",
+          status: "error",
+          message: "Session not found",
+        });
+      }
+
+      res.status(200).json({
+        code: "Success-00-0008",
+        status: "Success",
+        data: session,
+        message: "Session retrieved successfully",
+      });
+    } catch (error) {
+      console.error("Error retrieving session:", error);
+      res.status(500).json({
+        code: "ERROR-00-0009",
         status: "error",
-        message: "Session not found",
+        message: "Internal server error",
       });
     }
+  })
+);
 
-    res.status(200).json({
-      code: "Success-00-0008",
-      status: "Success",
-      data: session,
-      message: "Session retrieved successfully",
+/**
+ * @swagger
+ * /api/webhook:
+ *   post:
+ *     summary: Receive Stripe webhook events
+ *     description: >
+ *       Verifies the Stripe-Signature header against STRIPE_WEBHOOK_SECRET,
+ *       updates the matching order and enrolls the user in the course once a
+ *       checkout session has been paid. A payment for a course that filled
+ *       up meanwhile is refunded. Events that were already processed, or that
+ *       arrive for a refunded or cancelled order, are acknowledged without
+ *       changes.
+ *     tags: [Checkout]
+ *     parameters:
+ *       - in: header
+ *         name: Stripe-Signature
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *     responses:
+ *       200:
+ *         description: Event received.
+ *       400:
+ *         description: Missing or invalid signature.
+ *       500:
+ *         description: Internal server error, Stripe will retry the event.
+ */
+
+// The raw body for this route is kept by express.raw() in app.ts
+checkout.post("/webhook", async (req, res) => {
+  const signature = req.headers["stripe-signature"];
+
+  if (!signature || !STRIPE_WEBHOOK_SECRET) {
+    return res.status(400).json({
+      code: "ERROR-00-0010",
+      status: "error",
+      message: "Missing Stripe signature",
+    });
+  }
+
+  let event: Stripe.Event;
+  try {
+    event = stripe.webhooks.constructEvent(
+      req.body,
+      signature,
+      STRIPE_WEBHOOK_SECRET
+    );
+  } catch (error) {
+    console.error("Error verifying webhook signature:", error);
+    return res.status(400).json({
+      code: "ERROR-00-0011",
+      status: "error",
+      message: "Invalid Stripe signature",
     });
+  }
+
+  try {
+    switch (event.type) {
+      case "checkout.session.completed":
+      case "checkout.session.async_payment_succeeded":
+        await handleCheckoutPaid(event.data.object);
+        break;
+      case "checkout.session.async_payment_failed":
+      case "checkout.session.expired":
+        await Order.updateOne(
+          { stripeSessionId: event.data.object.id, status: "pending" },
+          { $set: { status: "failed" } }
+        );
+        break;
+      case "charge.refunded":
+        await handleChargeRefunded(event.data.object);
+        break;
+      default:
+        console.log("Unhandled webhook event:", event.type);
+    }
+
+    res.status(200).json({ received: true });
   } catch (error) {
-    console.error("Error retrieving session:", error);
+    console.error("Error handling webhook event:", error);
     res.status(500).json({
-      code: "ERROR-00-0009",
+      code: "ERROR-00-0012",
       status: "error",
       message: "Internal server error",
     });
   }
 });
+
+// The ID of a PaymentIntent, which Stripe sends as an object instead when the
+// field is expanded
+function paymentIntentId(
+  paymentIntent: string | Stripe.PaymentIntent | null
+): string | undefined {
+  return typeof paymentIntent === "string" ? paymentIntent : paymentIntent?.id;
+}
+
+// Moves the order for a paid session to "paid". Only a pending order (or one
+// never recorded, for sessions created before orders were) can be paid;
+// returns null when the order was already refunded, cancelled or failed so a
+// redelivered event cannot bring it back.
+async function markOrderPaid(session: Stripe.Checkout.Session) {
+  const { userId, courseId } = session.metadata || {};
+  const paid = {
+    status: "paid",
+    stripePaymentIntentId: paymentIntentId(session.payment_intent),
+    paidAt: new Date(),
+  };
+
+  const order = await Order.findOneAndUpdate(
+    { stripeSessionId: session.id, status: "pending" },
+    { $set: paid },
+    { new: true }
+  );
+  if (order) return order;
+
+  try {
+    return await Order.create({
+      ...paid,
+      orderId: uuidv4(),
+      userId,
+      courseId,
+      stripeSessionId: session.id,
+      amount: session.amount_total! / 100, // Convert from satangs
+      currency: session.currency,
+    });
+  } catch (error: any) {
+    if (error?.code !== 11000) throw error;
+  }
+
+  // The order exists and is no longer pending: a repeated event
+  const existing = await Order.findOne({ stripeSessionId: session.id });
+  return existing?.status === "paid" ? existing : null;
+}
+
+// Enrolls the user from the session metadata. Stripe may deliver the same
+// event more than once, so a redelivery finds the enrollment it made the
+// first time and changes nothing. A payment that does not enroll the user is
+// refunded.
+async function handleCheckoutPaid(session: Stripe.Checkout.Session) {
+  if (session.payment_status !== "paid") {
+    return;
+  }
+
+  const order = await markOrderPaid(session);
+  if (!order) {
+    console.log("Ignoring paid event for a settled order:", session.id);
+    return;
+  }
+
+  const user = await User.findOne({ userId: order.userId });
+  const course = await Course.findOne({ courseId: order.courseId });
+
+  if (!user || !course) {
+    console.error(
+      "Refunding paid session for unknown user or course:",
+      session.id
+    );
+    await refundOrder(order, `not-enrolled-${order.orderId}`);
+    return;
+  }
+
+  const result = await enrollUser(user, course, {
+    stripeSessionId: session.id,
+    paymentIntentId: paymentIntentId(session.payment_intent),
+    amountPaid: order.amount,
+    paidAt: order.paidAt!,
+  });
+
+  // Registered by this very session means the event was delivered again;
+  // registered by anything else means the user paid a second time
+  const redelivered =
+    result === "already-registered" &&
+    (await Course.exists({
+      courseId: course.courseId,
+      registeredUsers: {
+        $elemMatch: {
+          userId: user.userId,
+          "payment.stripeSessionId": session.id,
+        },
+      },
+    }));
+
+  // The course filled up, closed or was cancelled while the user was paying,
+  // or they were already registered: give the money back instead of keeping
+  // it for a seat they do not have
+  if (result !== "enrolled" && !redelivered) {
+    console.error(`Refunding paid session (${result}):`, session.id);
+    await refundOrder(order, `not-enrolled-${order.orderId}`);
+    return;
+  }
+
+  try {
+    // Keyed by session so a redelivered event does not send a second receipt
+    await notifyUser(
+      user,
+      "payment-receipt",
+      {
+        name: user.name,
+        courseName: course.courseName,
+        orderId: order.orderId,
+        amount: order.amount,
+        currency: order.currency,
+        paidAt: order.paidAt!,
+      },
+      { dedupeKey: `receipt:${session.id}` }
+    );
+  } catch (error) {
+    console.error("Error queueing payment receipt:", session.id, error);
+  }
+}
+
+// Keeps the order in step with refunds, including ones made from the Stripe
+// dashboard. Partially refunded charges keep their paid status.
+async function handleChargeRefunded(charge: Stripe.Charge) {
+  const intentId = paymentIntentId(charge.payment_intent);
+  if (!intentId) return;
+
+  await Order.updateOne(
+    { stripePaymentIntentId: intentId },
+    {
+      $set: {
+        amountRefunded: charge.amount_refunded / 100,
+        refundedAt: new Date(),
+        ...(charge.refunded && { status: "refunded" }),
+      },
+    }
+  );
+}
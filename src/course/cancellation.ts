@@ -0,0 +1,201 @@
+import mongoose from "mongoose";
+import { Course } from "./model";
+import { User } from "../users/model";
+import { Order } from "../orders/model";
+import { expireOrderCheckout, refundOrder } from "../orders/refund";
+import { notifyUser } from "../notifications/notify";
+import { promoteFromWaitlist } from "./waitlist";
+
+type CourseDocument = InstanceType<typeof Course>;
+
+// Refunds and notifies everyone registered for a course that was cancelled,
+// removes the course from their trainingInfo and closes checkouts still
+// awaiting payment. Failures are collected rather than thrown so one bad
+// refund does not stop the others.
+export async function settleCancelledCourse(
+  course: CourseDocument,
+  reason?: string
+) {
+  const result = {
+    refunded: 0,
+    expired: 0,
+    notified: 0,
+    failures: [] as string[],
+  };
+
+  // A checkout completed after this point is refunded by the webhook, which
+  // finds the course no longer open
+  const pendingOrders = await Order.find({
+    courseId: course.courseId,
+    status: "pending",
+  });
+
+  for (const order of pendingOrders) {
+    try {
+      await expireOrderCheckout(order);
+      result.expired += 1;
+    } catch (error) {
+      console.error("Error expiring checkout:", order.orderId, error);
+      result.failures.push(`expire:${order.orderId}`);
+    }
+  }
+
+  // Users who cancelled their registration already got the refund they were
+  // due, even if their order predates the "cancelled" status
+  const paidOrders = await Order.find({
+    courseId: course.courseId,
+    userId: {
+      $in: course.registeredUsers.map(
+        (registrant: { userId: string }) => registrant.userId
+      ),
+    },
+    status: "paid",
+  });
+
+  for (const order of paidOrders) {
+    try {
+      await refundOrder(order, `course-cancelled-${order.orderId}`);
+      result.refunded += 1;
+    } catch (error) {
+      console.error("Error refunding order:", order.orderId, error);
+      result.failures.push(`refund:${order.orderId}`);
+    }
+  }
+
+  for (const registrant of course.registeredUsers as {
+    userId: string;
+    name: string;
+    email: string;
+  }[]) {
+    try {
+      const user = await User.findOne({ userId: registrant.userId });
+      await notifyUser(
+        user ?? registrant,
+        "course-cancelled",
+        {
+          name: registrant.name,
+          courseName: course.courseName,
+          courseDate: course.courseDate,
+          reason,
+        },
+        {
+          dedupeKey: `course-cancelled:${course.courseId}:${registrant.userId}`,
+        }
+      );
+      result.notified += 1;
+    } catch (error) {
+      console.error("Error notifying registrant:", registrant.userId, error);
+      result.failures.push(`notify:${registrant.userId}`);
+    }
+  }
+
+  await User.updateMany(
+    { "trainingInfo.courseId": course.courseId },
+    { $pull: { trainingInfo: { courseId: course.courseId } } }
+  );
+
+  return result;
+}
+
+export interface RefundPolicy {
+  fullRefundDays: number; // full refund when cancelling at least this many days before
+  partialRefundDays: number; // partial refund when at least this many days before
+  partialRefundPercent: number;
+}
+
+export const REFUND_POLICY: RefundPolicy = {
+  fullRefundDays: Number(process.env.REFUND_FULL_DAYS ?? 14),
+  partialRefundDays: Number(process.env.REFUND_PARTIAL_DAYS ?? 7),
+  partialRefundPercent: Number(process.env.REFUND_PARTIAL_PERCENT ?? 50),
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Percentage of the paid amount returned when cancelling at `now`
+export function refundPercentFor(
+  courseDate: Date,
+  now: Date = new Date(),
+  policy: RefundPolicy = REFUND_POLICY
+) {
+  const daysBefore = (courseDate.getTime() - now.getTime()) / DAY_MS;
+
+  if (daysBefore >= policy.fullRefundDays) return 100;
+  if (daysBefore >= policy.partialRefundDays) {
+    return policy.partialRefundPercent;
+  }
+  return 0;
+}
+
+// Removes a user from a course and refunds their payment. The conditional
+// $pull makes a repeated cancellation a no-op instead of a double decrement.
+// Returns null when the user was not registered.
+export async function cancelRegistration(
+  userId: string,
+  course: CourseDocument,
+  refundPercent: number
+) {
+  const { courseId } = course;
+
+  // Both documents change together, like in enrollUser
+  const session = await mongoose.startSession();
+  let removed = false;
+  try {
+    await session.withTransaction(async () => {
+      const courseUpdate = await Course.updateOne(
+        { courseId, "registeredUsers.userId": userId },
+        {
+          $pull: { registeredUsers: { userId } },
+          $inc: { currentEnrollment: -1 },
+        },
+        { session }
+      );
+      removed = courseUpdate.modifiedCount > 0;
+      if (!removed) return;
+
+      await User.updateOne(
+        { userId },
+        { $pull: { trainingInfo: { courseId } } },
+        { session }
+      );
+    });
+  } finally {
+    await session.endSession();
+  }
+
+  if (!removed) {
+    return null;
+  }
+
+  const result = { refundPercent, amountRefunded: 0, refundFailed: false };
+
+  const order = await Order.findOne({
+    userId,
+    courseId,
+    status: "paid",
+  }).sort({ createdAt: -1 });
+  if (order) {
+    // Settled now, so a later course cancellation does not refund it again
+    order.status = "cancelled";
+    await order.save();
+  }
+  if (order && refundPercent > 0) {
+    const amount =
+      Math.round(((order.amount * refundPercent) / 100) * 100) / 100;
+    try {
+      const refund = await refundOrder(
+        order,
+        `registration-cancelled-${order.orderId}`,
+        amount
+      );
+      result.amountRefunded = refund.amount / 100;
+    } catch (error) {
+      console.error("Error refunding order:", order.orderId, error);
+      result.refundFailed = true;
+    }
+  }
+
+  // The freed seat goes to the next person on the waitlist
+  await promoteFromWaitlist(courseId);
+
+  return result;
+}
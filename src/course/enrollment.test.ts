@@ -0,0 +1,142 @@
+import crypto from "crypto";
+import mongoose from "mongoose";
+import { MongoMemoryReplSet } from "mongodb-memory-server";
+import { Course } from "./model";
+import { User } from "../users/model";
+import { enrollUser } from "./enrollment";
+
+// Confirmation emails are not under test
+jest.mock("../notifications/notify");
+
+// Downloading mongod on the first run can take a while
+jest.setTimeout(120000);
+
+const ENROLLMENT_LIMIT = 3;
+const USER_COUNT = 12;
+
+let replSet: MongoMemoryReplSet;
+
+beforeAll(async () => {
+  process.env.PII_ENCRYPTION_KEYS = `test:${crypto
+    .randomBytes(32)
+    .toString("base64")}`;
+  process.env.PII_BLIND_INDEX_KEY = crypto.randomBytes(32).toString("base64");
+
+  // enrollUser writes in a transaction, which needs a replica set
+  replSet = await MongoMemoryReplSet.create({
+    replSet: { count: 1, storageEngine: "wiredTiger" },
+  });
+  await mongoose.connect(replSet.getUri());
+  await Promise.all([Course.createCollection(), User.createCollection()]);
+});
+
+afterAll(async () => {
+  await mongoose.disconnect();
+  await replSet?.stop();
+});
+
+beforeEach(async () => {
+  await Promise.all([Course.deleteMany({}), User.deleteMany({})]);
+});
+
+function createCourse() {
+  const now = Date.now();
+  return Course.create({
+    courseId: "course-1",
+    courseName: "Forklift safety",
+    courseCode: "FS-101",
+    description: "Operating forklifts safely",
+    location: "Bangkok",
+    enrollmentLimit: ENROLLMENT_LIMIT,
+    price: 0,
+    hours: 6,
+    courseTag: [],
+    courseDate: new Date(now + 30 * 24 * 60 * 60 * 1000),
+    applicationPeriod: {
+      startDate: new Date(now - 24 * 60 * 60 * 1000),
+      endDate: new Date(now + 7 * 24 * 60 * 60 * 1000),
+    },
+    status: "published",
+  });
+}
+
+function createUser(index: number) {
+  return User.create({
+    userId: `user-${index}`,
+    name: `User ${index}`,
+    email: `user${index}@example.com`,
+    role: "user",
+    phonenumber: `+6681234${String(index).padStart(4, "0")}`,
+    idcard: String(1100000000000 + index),
+    company: "ACME",
+    password: "hash",
+    status: "Active",
+    emailVerifiedAt: new Date(),
+  });
+}
+
+// The course's registrants and the users listing the course must be the same
+// people, and never more of them than there are seats
+async function expectConsistentEnrollment() {
+  const course = await Course.findOne({ courseId: "course-1" });
+  const registered = course!.registeredUsers.map(
+    (registrant: { userId: string }) => registrant.userId
+  );
+  const enrolledUsers = await User.find({
+    "trainingInfo.courseId": "course-1",
+  });
+
+  expect(course!.currentEnrollment).toBeLessThanOrEqual(ENROLLMENT_LIMIT);
+  expect(registered).toHaveLength(course!.currentEnrollment);
+  expect(new Set(registered).size).toBe(registered.length);
+  expect(enrolledUsers.map((user) => user.userId).sort()).toEqual(
+    [...registered].sort()
+  );
+  for (const user of enrolledUsers) {
+    expect(
+      user.trainingInfo.filter((info) => info.courseId === "course-1")
+    ).toHaveLength(1);
+  }
+
+  return course!;
+}
+
+describe("enrollUser", () => {
+  it("never gives out more seats than the limit to concurrent registrations", async () => {
+    const course = await createCourse();
+    const users = await Promise.all(
+      Array.from({ length: USER_COUNT }, (_, index) => createUser(index))
+    );
+
+    const results = await Promise.all(
+      users.map((user) => enrollUser(user, course))
+    );
+
+    expect(results.filter((result) => result === "enrolled")).toHaveLength(
+      ENROLLMENT_LIMIT
+    );
+    expect(results.filter((result) => result === "fully-booked")).toHaveLength(
+      USER_COUNT - ENROLLMENT_LIMIT
+    );
+
+    const updated = await expectConsistentEnrollment();
+    expect(updated.currentEnrollment).toBe(ENROLLMENT_LIMIT);
+  });
+
+  it("enrolls a user only once when the same registration is repeated concurrently", async () => {
+    const course = await createCourse();
+    const user = await createUser(0);
+
+    const results = await Promise.all(
+      Array.from({ length: 5 }, () => enrollUser(user, course))
+    );
+
+    expect(results.filter((result) => result === "enrolled")).toHaveLength(1);
+    expect(
+      results.filter((result) => result === "already-registered")
+    ).toHaveLength(4);
+
+    const updated = await expectConsistentEnrollment();
+    expect(updated.currentEnrollment).toBe(1);
+  });
+});
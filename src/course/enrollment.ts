@@ -0,0 +1,250 @@
+import mongoose from "mongoose";
+import { Course } from "./model";
+import { User } from "../users/model";
+import { courseStatusFilter, getCourseStatus } from "./lifecycle";
+import { seatsAvailableFor } from "./waitlist";
+import { notifyUser } from "../notifications/notify";
+import { isEmailVerified } from "../auth/verification";
+import { encryptPii } from "../users/pii";
+
+type UserDocument = InstanceType<typeof User>;
+type CourseDocument = InstanceType<typeof Course>;
+
+export interface PaymentDetails {
+  stripeSessionId: string;
+  paymentIntentId?: string;
+  amountPaid: number; // in THB
+  paidAt: Date;
+}
+
+export interface RegistrationError {
+  status: number;
+  code: string;
+  message: string;
+}
+
+export function isUserEnrolled(user: UserDocument, courseId: string) {
+  return user.trainingInfo.some((info) => info.courseId === courseId);
+}
+
+// Checks that must pass before a seat can be given to (or paid for by) a user
+export function checkRegistration(
+  user: UserDocument,
+  course: CourseDocument,
+  now: Date = new Date()
+): RegistrationError | null {
+  if (!isEmailVerified(user)) {
+    return {
+      status: 403,
+      code: "Error-02-0015",
+      message: "Please verify your email address before registering",
+    };
+  }
+
+  if (getCourseStatus(course) !== "published") {
+    return {
+      status: 400,
+      code: "Error-02-0008",
+      message: "Course is not open for registration",
+    };
+  }
+
+  const { startDate, endDate } = course.applicationPeriod || {};
+  if (
+    !startDate ||
+    !endDate ||
+    now < new Date(startDate) ||
+    now > new Date(endDate)
+  ) {
+    return {
+      status: 400,
+      code: "Error-02-0004",
+      message: "Registration is not open during this period",
+    };
+  }
+
+  if (isUserEnrolled(user, course.courseId)) {
+    return {
+      status: 400,
+      code: "Error-02-0005",
+      message: "Course already registered",
+    };
+  }
+
+  // Seats held for promoted waitlist users are not up for grabs
+  if (seatsAvailableFor(course, user.userId, now) <= 0) {
+    return {
+      status: 400,
+      code: "Error-02-0006",
+      message: "Course is fully booked",
+    };
+  }
+
+  return null;
+}
+
+export type EnrollmentResult =
+  | "enrolled"
+  | "already-registered"
+  | "registration-closed"
+  | "fully-booked"
+  | "course-not-found";
+
+// Mongo filter matching courses that take registrations at `now`: published
+// and inside the application period
+function registrationOpenFilter(now: Date) {
+  return {
+    ...courseStatusFilter(["published"]),
+    "applicationPeriod.startDate": { $lte: now },
+    "applicationPeriod.endDate": { $gte: now },
+  };
+}
+
+// Mongo $expr that is true while a seat is free for the given user, counting
+// seats held for other promoted waitlist users as taken
+function seatFreeExpr(userId: string, now: Date) {
+  const heldForOthers = {
+    $size: {
+      $filter: {
+        input: { $ifNull: ["$seatWaitlist", []] },
+        cond: {
+          $and: [
+            { $eq: ["$$this.status", "offered"] },
+            { $gt: ["$$this.holdExpiresAt", now] },
+            { $ne: ["$$this.userId", userId] },
+          ],
+        },
+      },
+    },
+  };
+
+  return {
+    $lt: [{ $add: ["$currentEnrollment", heldForOthers] }, "$enrollmentLimit"],
+  };
+}
+
+class EnrollmentAborted extends Error {
+  constructor(public result: EnrollmentResult) {
+    super(result);
+  }
+}
+
+// Adds the course to the user's trainingInfo and the user to the course's
+// registeredUsers, then emails the user a confirmation. The payment is
+// recorded on the registrant entry when the seat was bought through Stripe
+// checkout.
+//
+// The seat is taken by a single conditional update, so concurrent requests can
+// never push currentEnrollment past enrollmentLimit nor enroll into a course
+// that was closed or cancelled meanwhile, and both documents are written in
+// one transaction (MongoDB must run as a replica set).
+export async function enrollUser(
+  user: UserDocument,
+  course: CourseDocument,
+  payment?: PaymentDetails
+): Promise<EnrollmentResult> {
+  const { courseId } = course;
+  const { userId } = user;
+  const now = new Date();
+
+  const registrant = {
+    _id: user._id,
+    userId,
+    name: user.name,
+    email: user.email,
+    phonenumber: user.phonenumber,
+    idcard: encryptPii(user.idcard),
+    company: user.company,
+    ...(payment && { payment }),
+  };
+
+  const trainingInfo = {
+    courseId,
+    courseName: course.courseName,
+    description: course.description,
+    location: course.location,
+    courseDate: course.courseDate,
+    hours: course.hours,
+    courseImage: course.imageUrl,
+  };
+
+  const session = await mongoose.startSession();
+  try {
+    await session.withTransaction(async () => {
+      const reserved = await Course.updateOne(
+        {
+          courseId,
+          "registeredUsers.userId": { $ne: userId },
+          ...registrationOpenFilter(now),
+          $expr: seatFreeExpr(userId, now),
+        },
+        {
+          $inc: { currentEnrollment: 1 },
+          $push: { registeredUsers: registrant },
+        },
+        { session }
+      );
+
+      if (!reserved.modifiedCount) {
+        const current = await Course.findOne({ courseId }, null, { session });
+        const open = await Course.exists({
+          courseId,
+          ...registrationOpenFilter(now),
+        }).session(session);
+        throw new EnrollmentAborted(
+          !current
+            ? "course-not-found"
+            : current.registeredUsers.some(
+                (registeredUser: { userId: string }) =>
+                  registeredUser.userId === userId
+              )
+            ? "already-registered"
+            : !open
+            ? "registration-closed"
+            : "fully-booked"
+        );
+      }
+
+      await Course.updateOne(
+        {
+          courseId,
+          seatWaitlist: {
+            $elemMatch: { userId, status: { $in: ["waiting", "offered"] } },
+          },
+        },
+        { $set: { "seatWaitlist.$.status": "claimed" } },
+        { session }
+      );
+
+      const added = await User.updateOne(
+        { userId, "trainingInfo.courseId": { $ne: courseId } },
+        { $push: { trainingInfo } },
+        { session }
+      );
+      if (!added.modifiedCount) {
+        throw new EnrollmentAborted("already-registered");
+      }
+    });
+  } catch (error) {
+    if (error instanceof EnrollmentAborted) {
+      return error.result;
+    }
+    throw error;
+  } finally {
+    await session.endSession();
+  }
+
+  // The seat is taken either way, so a failure here is only logged
+  try {
+    await notifyUser(user, "registration-confirmation", {
+      name: user.name,
+      courseName: course.courseName,
+      courseDate: course.courseDate,
+      location: course.location,
+    });
+  } catch (error) {
+    console.error("Error queueing registration confirmation:", error);
+  }
+
+  return "enrolled";
+}
@@ -0,0 +1,63 @@
+export const COURSE_STATUSES = [
+  "draft",
+  "published",
+  "registration_closed",
+  "completed",
+  "cancelled",
+  "archived",
+] as const;
+export type CourseStatus = (typeof COURSE_STATUSES)[number];
+
+// Which statuses a course can move to from each status
+export const COURSE_TRANSITIONS: Record<CourseStatus, CourseStatus[]> = {
+  draft: ["published", "cancelled"],
+  published: ["draft", "registration_closed", "cancelled"],
+  registration_closed: ["published", "completed", "cancelled"],
+  completed: ["archived"],
+  cancelled: ["archived"],
+  archived: [],
+};
+
+// Statuses shown to users who cannot manage courses
+export const VISIBLE_COURSE_STATUSES: CourseStatus[] = [
+  "published",
+  "registration_closed",
+  "completed",
+];
+
+// Courses created before statuses existed only have the isPublished flag
+export function getCourseStatus(course: {
+  status?: string | null;
+  isPublished?: boolean;
+}): CourseStatus {
+  if (COURSE_STATUSES.includes(course.status as CourseStatus)) {
+    return course.status as CourseStatus;
+  }
+  return course.isPublished ? "published" : "draft";
+}
+
+export function canTransition(from: CourseStatus, to: CourseStatus) {
+  return COURSE_TRANSITIONS[from].includes(to);
+}
+
+// The statuses a course can be in to move to the given status
+export function statusesAllowedBefore(to: CourseStatus) {
+  return COURSE_STATUSES.filter((from) => canTransition(from, to));
+}
+
+export function isPublishedStatus(status: CourseStatus) {
+  return VISIBLE_COURSE_STATUSES.includes(status);
+}
+
+// Mongo filter matching courses in any of the given statuses, including
+// courses that predate the status field
+export function courseStatusFilter(statuses: CourseStatus[]) {
+  const filters: Record<string, any>[] = [{ status: { $in: statuses } }];
+  if (statuses.includes("draft")) {
+    filters.push({ status: { $nin: COURSE_STATUSES }, isPublished: false });
+  }
+  if (statuses.includes("published")) {
+    filters.push({ status: { $nin: COURSE_STATUSES }, isPublished: true });
+  }
+  return { $or: filters };
+}
@@ -1,5 +1,29 @@
 import mongoose from "mongoose";
 
+const seatWaitlistEntrySchema = new mongoose.Schema(
+  {
+    userId: { type: String, required: true },
+    name: { type: String },
+    email: { type: String, required: true },
+    joinedAt: { type: Date, default: Date.now, required: true },
+    // waiting -> offered -> claimed, or expired / left
+    status: { type: String, default: "waiting", required: true },
+    offeredAt: { type: Date },
+    holdExpiresAt: { type: Date },
+  },
+  { _id: false }
+);
+
+const courseSessionSchema = new mongoose.Schema(
+  {
+    sessionId: { type: String, required: true },
+    startTime: { type: Date, required: true },
+    endTime: { type: Date, required: true },
+    room: { type: String },
+  },
+  { _id: false }
+);
+
 const courseSchema = new mongoose.Schema({
   courseId: { type: String, required: true },
   courseName: { type: String, required: true },
@@ -21,12 +45,20 @@ const courseSchema = new mongoose.Schema({
   courseTag: { type: Array, required: true },
   createDate: { type: Date, default: Date.now, required: true },
   courseDate: { type: Date, required: true },
+  // Optional; when set, courseDate is the first session and hours their total
+  sessions: [courseSessionSchema],
+  // Share of the hours a registrant must attend to be approved
+  minAttendancePercent: { type: Number, min: 0, max: 100 },
   applicationPeriod: {
     startDate: { type: Date, required: true },
     endDate: { type: Date, required: true },
   },
   imageUrl: String,
-  status: { type: String },
+  stripeProductId: { type: String },
+  stripePriceId: { type: String },
+  status: { type: String, default: "draft" },
+  statusUpdatedAt: { type: Date },
+  cancellationReason: { type: String },
   isPublished: {
     type: Boolean,
     default: false,
@@ -34,8 +66,9 @@ const courseSchema = new mongoose.Schema({
   },
   registeredUsers: [],
   waitingForApproveList: [],
-  generatedCode: { type: String },
-  generatedCodeTimestamp: { type: String },
+  seatWaitlist: [seatWaitlistEntrySchema],
+  // Seed of the rotating check-in codes, never sent to clients
+  attendanceSecret: { type: String, select: false },
 });
 
 export const Course = mongoose.model("courses", courseSchema);
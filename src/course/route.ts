@@ -5,8 +5,54 @@ import cloudinary from "cloudinary";
 import streamifier from "streamifier";
 import { Course } from "./model";
 import { Snowflake } from "@sapphire/snowflake";
-import { verifyJWT } from "../../middleware/middleware";
-import { User } from "../users/model";
+import {
+  hasPermission,
+  requirePermission,
+  verifyJWT,
+} from "../../middleware/middleware";
+import { byUser, rateLimit } from "../../middleware/rateLimit";
+import {
+  array,
+  boolean,
+  date,
+  invalidRequest,
+  number,
+  object,
+  oneOf,
+  optional,
+  PAGINATION_QUERY,
+  partial,
+  string,
+  unknown,
+  validated,
+} from "../../middleware/validate";
+import { serializeCourse } from "./serialize";
+import { idcardFilter, User } from "../users/model";
+import { parseIdcard, VALIDATION_ERRORS } from "../users/validation";
+import { checkRegistration, enrollUser } from "./enrollment";
+import {
+  CourseStatus,
+  courseStatusFilter,
+  getCourseStatus,
+  isPublishedStatus,
+  statusesAllowedBefore,
+  VISIBLE_COURSE_STATUSES,
+} from "./lifecycle";
+import {
+  cancelRegistration,
+  refundPercentFor,
+  settleCancelledCourse,
+} from "./cancellation";
+import {
+  findWaitlistEntry,
+  promoteFromWaitlist,
+  waitlistPosition,
+} from "./waitlist";
+import { parseSessions, sessionDerivedFields } from "./sessions";
+import { attendanceFor } from "../attendance/checkin";
+import { issueCertificate } from "../certificates/certificate";
+import { applyCourseCredit } from "../users/validity";
+import { notifyUser } from "../notifications/notify";
 dotenv.config();
 export const course = express();
 
@@ -21,8 +67,26 @@ cloudinary.v2.config({
   api_secret: process.env.CLOUDINARY_API_SECRET,
 });
 
-interface MulterRequest extends Request {
-  file?: Express.Multer.File;
+// Upload a course image to Cloudinary, named after the course
+function uploadCourseImage(file: Express.Multer.File, courseName: string) {
+  const stream = streamifier.createReadStream(file.buffer);
+  return new Promise<any>((resolve, reject) => {
+    const uploadStream = cloudinary.v2.uploader.upload_stream(
+      {
+        resource_type: "image",
+        public_id: courseName.replace(/\s+/g, "_"),
+        folder: "CourseImage",
+      },
+      (error, result) => {
+        if (error) {
+          return reject(error);
+        }
+        resolve(result);
+      }
+    );
+
+    stream.pipe(uploadStream);
+  });
 }
 
 /**
@@ -35,9 +99,14 @@ interface MulterRequest extends Request {
  *       bearerFormat: JWT
  *       description: Provide the JWT token as "Bearer <token>".
  *
- * /api/v1/courses:
+ * /api/v1/auth/courses:
  *   get:
  *     summary: Retrieve all courses
+ *     description: >
+ *       Requires the `course:read` permission. Registrants and waiting lists
+ *       are only included for course staff (`course:manage` or
+ *       `attendance:review`), with ID card numbers masked unless the caller
+ *       has `user:pii:read`. Everyone else gets isRegistered instead.
  *     tags: [Courses]
  *     security:
  *       - bearerAuth: []  # Indicates the need for a JWT token
@@ -102,6 +171,8 @@ interface MulterRequest extends Request {
  *                 message:
  *                   type: string
  *                   example: "Authorization header is missing or invalid."
+ *       403:
+ *         description: Missing the required permission.
  *       500:
  *         description: Internal server error.
  *         content:
@@ -120,36 +191,304 @@ interface MulterRequest extends Request {
  *                   example: "Internal server error while fetching courses."
  */
 
-course.get("/auth/courses", verifyJWT, async (req: Request, res: Response) => {
-  try {
-    const courses = await Course.find();
-    res.status(200).json({
-      code: "Success-01-0001",
-      status: "Success",
-      message: "Courses retrieved successfully",
-      data: courses,
-    });
-  } catch (error) {
-    console.error("Error retrieving courses:", error);
-    res.status(500).json({
-      code: "Error-03-0001",
-      status: "Error",
-      message: "Internal server error while fetching courses",
-    });
+course.get(
+  "/auth/courses",
+  verifyJWT,
+  requirePermission("course:read"),
+  async (req: Request, res: Response) => {
+    try {
+      // Only course managers see drafts, cancelled and archived courses
+      const filter = hasPermission(req.user.role, "course:manage")
+        ? {}
+        : courseStatusFilter(VISIBLE_COURSE_STATUSES);
+      const courses = await Course.find(filter);
+      res.status(200).json({
+        code: "Success-01-0001",
+        status: "Success",
+        message: "Courses retrieved successfully",
+        data: courses.map((found) => serializeCourse(found, req.user)),
+      });
+    } catch (error) {
+      console.error("Error retrieving courses:", error);
+      res.status(500).json({
+        code: "Error-03-0001",
+        status: "Error",
+        message: "Internal server error while fetching courses",
+      });
+    }
   }
-});
+);
+
+// Fields of a course that are safe to show without logging in
+const CATALOG_PROJECTION = {
+  _id: 0,
+  courseId: 1,
+  courseName: 1,
+  courseCode: 1,
+  description: 1,
+  location: 1,
+  imageUrl: 1,
+  price: 1,
+  hours: 1,
+  courseTag: 1,
+  courseDate: 1,
+  sessions: 1,
+  applicationPeriod: 1,
+  enrollmentLimit: 1,
+  currentEnrollment: 1,
+  status: 1,
+};
+
+// Fields shared by the create and update course forms
+const COURSE_FORM_FIELDS = {
+  courseName: string(),
+  courseCode: string(),
+  description: string(),
+  location: string(),
+  enrollmentLimit: number({ integer: true, min: 1, max: 99 }),
+  price: number({ min: 0 }),
+  courseTag: array(string()),
+  // Multi-day courses send their sessions instead of courseDate and hours
+  courseDate: optional(date()),
+  hours: optional(number({ min: 1, max: 24 })),
+  sessions: optional(unknown()),
+  minAttendancePercent: optional(number({ min: 0, max: 100 })),
+  applicationPeriod: object({ from: date(), to: date() }),
+};
+
+const CATALOG_SORTS: Record<string, Record<string, 1 | -1>> = {
+  courseDate: { courseDate: 1 },
+  "-courseDate": { courseDate: -1 },
+  price: { price: 1 },
+  "-price": { price: -1 },
+  createDate: { createDate: 1 },
+  "-createDate": { createDate: -1 },
+  courseName: { courseName: 1 },
+  "-courseName": { courseName: -1 },
+};
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * @swagger
+ * /api/v1/courses:
+ *   get:
+ *     summary: Browse the public course catalog
+ *     description: >
+ *       Does not require a login. Only published courses are listed, without
+ *       registrant data.
+ *     tags: [Courses]
+ *     parameters:
+ *       - in: query
+ *         name: q
+ *         description: Text searched in courseName and description.
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: tag
+ *         description: Comma-separated course tags; a course matches any of them.
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: location
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: minPrice
+ *         schema:
+ *           type: number
+ *       - in: query
+ *         name: maxPrice
+ *         schema:
+ *           type: number
+ *       - in: query
+ *         name: from
+ *         description: Only courses taking place on or after this date.
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         description: Only courses taking place on or before this date.
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: available
+ *         description: When true, only courses with seats left.
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *           enum: [courseDate, -courseDate, price, -price, createDate, -createDate, courseName, -courseName]
+ *           default: courseDate
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Courses retrieved successfully, with pagination totals.
+ *       400:
+ *         $ref: '#/components/responses/InvalidRequest'
+ *       500:
+ *         description: Internal server error.
+ */
+
+course.get(
+  "/courses",
+  validated(
+    {
+      query: {
+        q: optional(string()),
+        tag: optional(string()),
+        location: optional(string()),
+        minPrice: optional(number()),
+        maxPrice: optional(number()),
+        from: optional(date()),
+        to: optional(date()),
+        available: optional(boolean()),
+        sort: optional(oneOf(Object.keys(CATALOG_SORTS))),
+        ...PAGINATION_QUERY,
+      },
+    },
+    async (req, res) => {
+      const {
+        q,
+        tag,
+        location,
+        minPrice,
+        maxPrice,
+        from,
+        to,
+        available,
+        sort = "courseDate",
+        page = 1,
+        limit = 20,
+      } = req.query;
+
+      const conditions: Record<string, any>[] = [
+        courseStatusFilter(VISIBLE_COURSE_STATUSES),
+      ];
+
+      // A regex rather than a text index, since Thai text has no word breaks
+      if (q) {
+        const pattern = new RegExp(escapeRegExp(q), "i");
+        conditions.push({
+          $or: [{ courseName: pattern }, { description: pattern }],
+        });
+      }
+
+      if (tag) {
+        const tags = tag
+          .split(",")
+          .map((value) => value.trim())
+          .filter(Boolean);
+        conditions.push({ courseTag: { $in: tags } });
+      }
+
+      if (location) {
+        conditions.push({ location: new RegExp(escapeRegExp(location), "i") });
+      }
+
+      if (minPrice !== undefined || maxPrice !== undefined) {
+        conditions.push({
+          price: {
+            ...(minPrice !== undefined && { $gte: minPrice }),
+            ...(maxPrice !== undefined && { $lte: maxPrice }),
+          },
+        });
+      }
+
+      if (from || to) {
+        conditions.push({
+          courseDate: {
+            ...(from && { $gte: from }),
+            ...(to && { $lte: to }),
+          },
+        });
+      }
+
+      if (available) {
+        conditions.push({
+          $expr: { $lt: ["$currentEnrollment", "$enrollmentLimit"] },
+        });
+      }
+
+      const filter = { $and: conditions };
+
+      try {
+        const [courses, total] = await Promise.all([
+          Course.find(filter, CATALOG_PROJECTION)
+            .sort({ ...CATALOG_SORTS[sort], courseId: 1 })
+            .skip((page - 1) * limit)
+            .limit(limit)
+            .lean(),
+          Course.countDocuments(filter),
+        ]);
+
+        res.status(200).json({
+          code: "Success-01-0001",
+          status: "Success",
+          message: "Courses retrieved successfully",
+          data: courses.map((catalogCourse) => ({
+            ...catalogCourse,
+            seatsAvailable: Math.max(
+              catalogCourse.enrollmentLimit - catalogCourse.currentEnrollment,
+              0
+            ),
+          })),
+          pagination: {
+            page,
+            limit,
+            total,
+            totalPages: Math.ceil(total / limit),
+          },
+        });
+      } catch (error) {
+        console.error("Error retrieving course catalog:", error);
+        res.status(500).json({
+          code: "Error-03-0001",
+          status: "Error",
+          message: "Internal server error while fetching courses",
+        });
+      }
+    }
+  )
+);
 
 // find course by id
 course.get(
   "/courses/:courseId",
   verifyJWT,
-  async (req: Request, res: Response) => {
+  requirePermission("course:read"),
+  validated({ params: { courseId: string() } }, async (req, res) => {
     try {
       const { courseId } = req.params;
       // console.log("Fetching courseId:", courseId);
       const course = await Course.findOne({ courseId });
 
-      if (!course) {
+      // Registrants can still look up a course after it was cancelled
+      const isVisible =
+        course &&
+        (hasPermission(req.user.role, "course:manage") ||
+          isPublishedStatus(getCourseStatus(course)) ||
+          course.registeredUsers.some(
+            (registeredUser: { userId: string }) =>
+              registeredUser.userId === req.user.userId
+          ));
+
+      if (!course || !isVisible) {
         return res.status(404).json({
           code: "Error-01-0007",
           status: "Error",
@@ -161,7 +500,7 @@ course.get(
         code: "Success-01-0001",
         status: "Success",
         message: "Course retrieved successfully",
-        data: course,
+        data: serializeCourse(course, req.user),
       });
     } catch (error) {
       return res.status(500).json({
@@ -170,7 +509,7 @@ course.get(
         message: "Internal server error",
       });
     }
-  }
+  })
 );
 
 /**
@@ -178,6 +517,7 @@ course.get(
  * /api/v1/createCourse:
  *   post:
  *     summary: Create a new course
+ *     description: Requires the `course:manage` permission.
  *     tags: [Courses]
  *     security:
  *       - bearerAuth: []  # Indicates the need for a JWT token
@@ -211,11 +551,24 @@ course.get(
  *                 example: '["new", "programming"]'
  *               hours:
  *                 type: integer
+ *                 description: Required unless sessions are given.
  *                 example: 3
  *               courseDate:
  *                 type: string
  *                 format: date
+ *                 description: Required unless sessions are given.
  *                 example: "2024-01-01"
+ *               sessions:
+ *                 type: string
+ *                 description: >
+ *                   Optional JSON array of sessions for courses that span
+ *                   several days. When given, courseDate and hours are taken
+ *                   from the sessions.
+ *                 example: '[{"startTime":"2024-01-01T09:00","endTime":"2024-01-01T16:00","room":"A101"},{"startTime":"2024-01-02T09:00","endTime":"2024-01-02T16:00","room":"A101"}]'
+ *               minAttendancePercent:
+ *                 type: number
+ *                 description: Share of the course hours a registrant must attend to be approved. Defaults to 80.
+ *                 example: 80
  *               applicationPeriod:
  *                 type: string
  *                 example: '{"from":"2024-01-01", "to":"2024-01-15"}'
@@ -240,7 +593,13 @@ course.get(
  *                   type: string
  *                   example: "Course created successfully"
  *       400:
- *         description: Invalid input or missing required fields.
+ *         description: >
+ *           Missing or invalid fields or image (Error-02-0019), or invalid
+ *           sessions.
+ *       415:
+ *         $ref: '#/components/responses/UnsupportedMediaType'
+ *       403:
+ *         description: Missing the required permission.
  *       500:
  *         description: Internal server error.
  */
@@ -249,212 +608,141 @@ course.get(
 course.post(
   "/createCourse",
   verifyJWT,
+  requirePermission("course:manage"),
   upload.single("courseImage"),
-  async (req: MulterRequest, res: Response) => {
-    console.log("Headers:", req.headers);
-    console.log("Body:", req.body);
-    console.log("File:", req.file);
-
-    const contentType = req.headers["content-type"];
-
-    // Check content type
-    if (!contentType || !contentType.includes("multipart/form-data")) {
-      return res.status(400).json({
-        code: "Error-01-0001",
-        status: "Error",
-        message: "Invalid Headers",
-      });
-    }
-
-    const {
-      courseName,
-      courseCode,
-      description,
-      location,
-      enrollmentLimit,
-      price,
-      courseTag,
-      hours,
-      courseDate,
-      applicationPeriod,
-    } = req.body;
-
-    console.log(req.body);
-
-    console.log(hours);
-
-    const file = req.file;
-
-    if (!file) {
-      return res.status(400).json({
-        code: "Error-01-0002",
-        status: "Error",
-        message: "Missing required image file",
-      });
-    }
-
-    const enrollmentLimitNumber = Number(enrollmentLimit);
-    if (
-      isNaN(enrollmentLimitNumber) ||
-      enrollmentLimitNumber < 1 ||
-      enrollmentLimitNumber > 99
-    ) {
-      return res.status(400).json({
-        code: "Error-01-0004",
-        status: "Error",
-        message: "Enrollment limit must be a valid number between 1 and 99",
-      });
-    }
-
-    const hoursNumber = Number(hours);
-    if (isNaN(hoursNumber) || hoursNumber < 1 || hoursNumber > 24) {
-      return res.status(400).json({
-        code: "Error-01-0004",
-        status: "Error",
-        message: "Hours  must be a valid number between 1 and 24",
-      });
-    }
-
-    let parsedCourseTag;
-    try {
-      parsedCourseTag = JSON.parse(courseTag);
-    } catch (error) {
-      return res.status(400).json({
-        code: "Error-01-0005",
-        status: "Error",
-        message: "Invalid courseTag format",
-      });
-    }
-
-    // Validate applicationPeriod
-    let parsedApplicationPeriod;
-    try {
-      parsedApplicationPeriod =
-        typeof applicationPeriod === "string"
-          ? JSON.parse(applicationPeriod)
-          : applicationPeriod;
-
-      const { from, to } = parsedApplicationPeriod || {};
-
-      if (!from || !to) {
-        return res.status(400).json({
-          code: "Error-01-0006",
-          status: "Error",
-          message:
-            "Both startDate and endDate are required in applicationPeriod",
-        });
-      }
-
-      const startDate = new Date(from);
-      const endDate = new Date(to);
-
-      if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
-        return res.status(400).json({
-          code: "Error-01-0007",
-          status: "Error",
-          message: "Invalid date format for startDate or endDate",
-        });
+  validated(
+    {
+      contentType: "multipart",
+      body: COURSE_FORM_FIELDS,
+      file: { field: "courseImage", required: true },
+    },
+    async (req, res) => {
+      const {
+        courseName,
+        courseCode,
+        description,
+        location,
+        enrollmentLimit,
+        price,
+        courseTag,
+        hours,
+        courseDate,
+        applicationPeriod,
+        sessions,
+        minAttendancePercent,
+      } = req.body;
+      const file = req.file!;
+
+      // Multi-day courses send their sessions instead of courseDate and hours
+      let sessionFields = {};
+      if (sessions !== undefined) {
+        const parsedSessions = parseSessions(sessions);
+        if ("error" in parsedSessions) {
+          return res.status(400).json({
+            code: "Error-01-0016",
+            status: "Error",
+            message: parsedSessions.error,
+          });
+        }
+        sessionFields = sessionDerivedFields(parsedSessions.sessions);
+      } else {
+        const missing = (["courseDate", "hours"] as const).filter(
+          (field) => req.body[field] === undefined
+        );
+        if (missing.length) {
+          return invalidRequest(
+            res,
+            missing.map((field) => ({
+              location: "body",
+              field,
+              message: "or sessions is required",
+            }))
+          );
+        }
       }
 
-      if (startDate >= endDate) {
-        return res.status(400).json({
-          code: "Error-01-0008",
-          status: "Error",
-          message: "startDate must be earlier than endDate",
-        });
+      if (applicationPeriod.from >= applicationPeriod.to) {
+        return invalidRequest(res, [
+          {
+            location: "body",
+            field: "applicationPeriod.from",
+            message: "must be earlier than applicationPeriod.to",
+          },
+        ]);
       }
+      const parsedApplicationPeriod = {
+        startDate: applicationPeriod.from,
+        endDate: applicationPeriod.to,
+      };
 
-      parsedApplicationPeriod = { startDate, endDate };
-    } catch (error) {
-      return res.status(400).json({
-        code: "Error-01-0009",
-        status: "Error",
-        message: "Invalid applicationPeriod format",
-      });
-    }
-
-    try {
-      // Upload image to Cloudinary
-      const stream = streamifier.createReadStream(file.buffer);
-      const uploadResponse = await new Promise<any>((resolve, reject) => {
-        const uploadStream = cloudinary.v2.uploader.upload_stream(
-          {
-            resource_type: "image",
-            public_id: courseName.replace(/\s+/g, "_"),
-            folder: "CourseImage",
+      try {
+        // Upload image to Cloudinary
+        const uploadResponse = await uploadCourseImage(file, courseName);
+
+        // Create a Stripe product
+        const stripeProduct = await stripe.products.create({
+          name: courseName,
+          description,
+          images: [uploadResponse.secure_url],
+          metadata: {
+            courseId: snowflake.generate().toString(),
+            courseCode,
+            location,
+            courseDate: courseDate?.toISOString(),
           },
-          (error, result) => {
-            if (error) {
-              return reject(error);
-            }
-            resolve(result);
-          }
-        );
+        });
 
-        stream.pipe(uploadStream);
-      });
+        // Create a price for the product in THB
+        const stripePrice = await stripe.prices.create({
+          unit_amount: Math.round(price * 100), // Convert to satangs
+          currency: "thb", // Set currency to Thai Baht
+          product: stripeProduct.id,
+        });
 
-      // Create a Stripe product
-      const stripeProduct = await stripe.products.create({
-        name: courseName,
-        description,
-        images: [uploadResponse.secure_url],
-        metadata: {
-          courseId: snowflake.generate().toString(),
+        // Prepare course data for MongoDB
+        const courseId = snowflake.generate().toString();
+        const courseData = {
+          courseId,
+          courseName,
           courseCode,
+          description,
           location,
+          hours,
+          enrollmentLimit,
+          price: stripePrice.unit_amount / 100,
+          courseTag,
           courseDate,
-        },
-      });
-
-      // Create a price for the product in THB
-      const stripePrice = await stripe.prices.create({
-        unit_amount: Number(price) * 100, // Convert to satangs
-        currency: "thb", // Set currency to Thai Baht
-        product: stripeProduct.id,
-      });
-
-      console.log(hours);
-      // Prepare course data for MongoDB
-      const courseId = snowflake.generate().toString();
-      const courseData = {
-        courseId,
-        courseName,
-        courseCode,
-        description,
-        location,
-        hours: hoursNumber,
-        enrollmentLimit: enrollmentLimitNumber,
-        price: stripePrice.unit_amount / 100,
-        courseTag: parsedCourseTag,
-        courseDate,
-        applicationPeriod: parsedApplicationPeriod,
-        imageUrl: uploadResponse.secure_url,
-        stripeProductId: stripeProduct.id,
-        stripePriceId: stripePrice.id,
-        createDate: new Date(),
-        isPublished: false,
-      };
-
-      // Insert course into the database
-      await Course.collection.insertOne(courseData);
-
-      const response = {
-        code: "Success-01-0001",
-        status: "Success",
-        message: "Course created successfully",
-      };
-
-      return res.status(200).json(response);
-    } catch (error) {
-      console.error("Error:", error);
-      return res.status(500).json({
-        code: "Error-03-0001",
-        status: "Error",
-        message: "Internal server error",
-      });
+          ...sessionFields,
+          ...(minAttendancePercent !== undefined && { minAttendancePercent }),
+          applicationPeriod: parsedApplicationPeriod,
+          imageUrl: uploadResponse.secure_url,
+          stripeProductId: stripeProduct.id,
+          stripePriceId: stripePrice.id,
+          createDate: new Date(),
+          status: "draft",
+          isPublished: false,
+        };
+
+        // Insert course into the database
+        await Course.collection.insertOne(courseData);
+
+        const response = {
+          code: "Success-01-0001",
+          status: "Success",
+          message: "Course created successfully",
+        };
+
+        return res.status(200).json(response);
+      } catch (error) {
+        console.error("Error:", error);
+        return res.status(500).json({
+          code: "Error-03-0001",
+          status: "Error",
+          message: "Internal server error",
+        });
+      }
     }
-  }
+  )
 );
 
 /**
@@ -462,6 +750,7 @@ course.post(
  * /api/v1/verify-id:
  *   post:
  *     summary: Verify user ID card
+ *     description: Requires the `profile:read` permission.
  *     tags: [Courses]
  *     security:
  *       - bearerAuth: []  # Indicates the need for a JWT token
@@ -493,83 +782,92 @@ course.post(
  *                   type: string
  *                   example: "ID card verified successfully"
  *       400:
- *         description: Missing or invalid ID card field.
+ *         description: >
+ *           Missing ID card field (Error-02-0019), or a number that is not
+ *           13 digits with a valid check digit (Error-02-0016).
+ *       415:
+ *         $ref: '#/components/responses/UnsupportedMediaType'
+ *       403:
+ *         description: Missing the required permission.
  *       404:
  *         description: ID card not found.
+ *       429:
+ *         description: Too many verification attempts.
  *       500:
  *         description: Internal server error.
  */
 
-course.post("/verify-id", verifyJWT, async (req: Request, res: Response) => {
-  const contentType = req.headers["content-type"];
-
-  // Check for valid content type
-  if (!contentType || contentType !== "application/json") {
-    return res.status(400).json({
-      code: "Error-01-0001",
-      status: "Error",
-      message: "Invalid Headers",
-    });
-  }
-
-  const { idcard } = req.body;
-  if (!idcard) {
-    return res.status(400).json({
-      code: "Error-01-0002",
-      status: "Error",
-      message: "Missing or invalid ID Card field.",
-    });
-  }
-
-  try {
-    // Extract user information from the JWT token (assuming verifyJWT middleware adds `req.user`)
-    const userFromToken = req.user; // Ensure `verifyJWT` adds user details to req.user
-
-    if (!userFromToken) {
-      return res.status(401).json({
-        code: "Error-01-0006",
-        status: "Error",
-        message: "Unauthorized access. User identity is missing.",
-      });
-    }
-    // Check if the ID card matches the authenticated user's ID card
-    const user = await User.findOne({ idcard });
-    if (!user) {
-      return res.status(404).json({
-        code: "Error-01-0004",
+course.post(
+  "/verify-id",
+  verifyJWT,
+  requirePermission("profile:read"),
+  rateLimit({
+    name: "verify-id-user",
+    windowMs: 15 * 60 * 1000,
+    max: 10,
+    key: byUser,
+  }),
+  validated({ body: { idcard: string() } }, async (req, res) => {
+    const idcard = parseIdcard(req.body.idcard);
+    if (!idcard) {
+      return res.status(400).json({
+        code: VALIDATION_ERRORS.idcard.code,
         status: "Error",
-        message: "ID Card not found in the system.",
+        message: VALIDATION_ERRORS.idcard.message,
       });
     }
 
-    if (userFromToken.userId !== user.userId) {
-      return res.status(403).json({
-        code: "Error-01-0007",
+    try {
+      // Extract user information from the JWT token (assuming verifyJWT middleware adds `req.user`)
+      const userFromToken = req.user; // Ensure `verifyJWT` adds user details to req.user
+
+      if (!userFromToken) {
+        return res.status(401).json({
+          code: "Error-01-0006",
+          status: "Error",
+          message: "Unauthorized access. User identity is missing.",
+        });
+      }
+      // Check if the ID card matches the authenticated user's ID card
+      const user = await User.findOne(idcardFilter(idcard));
+      if (!user) {
+        return res.status(404).json({
+          code: "Error-01-0004",
+          status: "Error",
+          message: "ID Card not found in the system.",
+        });
+      }
+
+      if (userFromToken.userId !== user.userId) {
+        return res.status(403).json({
+          code: "Error-01-0007",
+          status: "Error",
+          message: "The provided ID Card does not belong to you.",
+        });
+      }
+      // If the ID card matches the authenticated user
+      res.status(200).json({
+        code: "Success-01-0001",
+        status: "Success",
+        message: "ID Card verified successfully.",
+      });
+    } catch (error) {
+      console.error("Error during ID card verification:", error);
+      res.status(500).json({
+        code: "Error-03-0001",
         status: "Error",
-        message: "The provided ID Card does not belong to you.",
+        message: "Internal server error.",
       });
     }
-    // If the ID card matches the authenticated user
-    res.status(200).json({
-      code: "Success-01-0001",
-      status: "Success",
-      message: "ID Card verified successfully.",
-    });
-  } catch (error) {
-    console.error("Error during ID card verification:", error);
-    res.status(500).json({
-      code: "Error-03-0001",
-      status: "Error",
-      message: "Internal server error.",
-    });
-  }
-});
+  })
+);
 
 /**
  * @swagger
  * /api/v1/course/updateCourse:
  *   post:
  *     summary: Update course details
+ *     description: Requires the `course:manage` permission.
  *     tags: [Courses]
  *     security:
  *       - bearerAuth: []  # Indicates the need for a JWT token
@@ -583,6 +881,38 @@ course.post("/verify-id", verifyJWT, async (req: Request, res: Response) => {
  *               courseId:
  *                 type: string
  *                 example: "1234abcd"
+ *               courseName:
+ *                 type: string
+ *               courseCode:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               location:
+ *                 type: string
+ *               enrollmentLimit:
+ *                 type: integer
+ *                 description: Between 1 and 99, and not below the current enrollment.
+ *               price:
+ *                 type: number
+ *                 description: >
+ *                   Price in THB. A change creates a new Stripe price and
+ *                   archives the old one.
+ *               hours:
+ *                 type: integer
+ *                 description: Between 1 and 24.
+ *               courseDate:
+ *                 type: string
+ *                 format: date-time
+ *               sessions:
+ *                 type: string
+ *                 description: >
+ *                   JSON array of { sessionId?, startTime, endTime, room }
+ *                   replacing the course sessions. Keep the sessionId of
+ *                   existing sessions so their check-ins still count. Courses
+ *                   with sessions take courseDate and hours from them.
+ *               minAttendancePercent:
+ *                 type: number
+ *                 description: Between 0 and 100.
  *               courseTag:
  *                 type: string
  *                 example: '["programming", "advanced"]'
@@ -611,12 +941,15 @@ course.post("/verify-id", verifyJWT, async (req: Request, res: Response) => {
  *                   example: "Course updated successfully"
  *                 data:
  *                   type: object
- *                   properties:
- *                     nModified:
- *                       type: integer
- *                       example: 1
+ *                   description: The updated course.
  *       400:
- *         description: Missing or invalid input.
+ *         description: >
+ *           Missing or invalid fields (Error-02-0019), invalid sessions, or an
+ *           enrollment limit below the current enrollment.
+ *       415:
+ *         $ref: '#/components/responses/UnsupportedMediaType'
+ *       403:
+ *         description: Missing the required permission.
  *       404:
  *         description: Course not found.
  *       500:
@@ -626,173 +959,935 @@ course.post("/verify-id", verifyJWT, async (req: Request, res: Response) => {
 course.post(
   "/course/updateCourse",
   verifyJWT,
+  requirePermission("course:manage"),
   upload.single("courseImage"),
-  async (req: Request, res: Response) => {
-    const contentType = req.headers["content-type"];
-
-    if (!contentType || !contentType.includes("multipart/form-data")) {
-      return res.status(400).json({
-        code: "Error-01-0001",
-        status: "Error",
-        message: "Invalid Headers",
-      });
-    }
+  validated(
+    {
+      contentType: "multipart",
+      body: { courseId: string(), ...partial(COURSE_FORM_FIELDS) },
+      file: { field: "courseImage" },
+    },
+    async (req, res) => {
+      const {
+        courseId,
+        courseName,
+        courseCode,
+        description,
+        location,
+        enrollmentLimit,
+        price,
+        courseTag,
+        hours,
+        courseDate,
+        applicationPeriod,
+        sessions,
+        minAttendancePercent,
+      } = req.body;
+
+      // Only these fields can be changed; enrollment data is never taken from the body
+      const updateFields: Record<string, any> = {
+        ...(courseName && { courseName }),
+        ...(courseCode && { courseCode }),
+        ...(description && { description }),
+        ...(location && { location }),
+        ...(enrollmentLimit !== undefined && { enrollmentLimit }),
+        ...(hours !== undefined && { hours }),
+        ...(price !== undefined && { price }),
+        ...(courseDate && { courseDate }),
+        ...(minAttendancePercent !== undefined && { minAttendancePercent }),
+        ...(courseTag && { courseTag }),
+      };
 
-    try {
-      // Destructure and parse the body
-      const { courseId, courseTag, applicationPeriod, ...updateFields } =
-        req.body;
+      if (sessions !== undefined) {
+        const parsedSessions = parseSessions(sessions);
+        if ("error" in parsedSessions) {
+          return res.status(400).json({
+            code: "Error-01-0016",
+            status: "Error",
+            message: parsedSessions.error,
+          });
+        }
+        Object.assign(
+          updateFields,
+          sessionDerivedFields(parsedSessions.sessions)
+        );
+      }
 
-      // Validate `courseId`
-      if (!courseId) {
-        return res.status(400).json({
-          code: "Error-01-0004",
-          status: "Error",
-          message: "Course ID is required",
-        });
+      if (applicationPeriod) {
+        if (applicationPeriod.from >= applicationPeriod.to) {
+          return invalidRequest(res, [
+            {
+              location: "body",
+              field: "applicationPeriod.from",
+              message: "must be earlier than applicationPeriod.to",
+            },
+          ]);
+        }
+        updateFields.applicationPeriod = {
+          startDate: applicationPeriod.from,
+          endDate: applicationPeriod.to,
+        };
       }
 
-      // Parse and validate `courseTag`
-      let parsedCourseTag = [];
-      if (courseTag) {
-        try {
-          parsedCourseTag = JSON.parse(courseTag);
-        } catch (error) {
+      try {
+        // Find the course in the database
+        const course = await Course.findOne({ courseId });
+        if (!course) {
+          return res.status(404).json({
+            code: "Error-01-0002",
+            status: "Error",
+            message: "Course not found",
+          });
+        }
+
+        if (
+          sessions === undefined &&
+          course.sessions.length &&
+          (hours !== undefined || courseDate)
+        ) {
           return res.status(400).json({
-            code: "Error-01-0005",
+            code: "Error-01-0016",
             status: "Error",
-            message: "Invalid courseTag format",
+            message:
+              "This course has sessions; update the sessions to change its date or hours",
           });
         }
-        updateFields.courseTag = parsedCourseTag;
-      }
 
-      // Parse and validate `applicationPeriod`
-      if (applicationPeriod) {
-        let parsedApplicationPeriod;
-        try {
-          parsedApplicationPeriod =
-            typeof applicationPeriod === "string"
-              ? JSON.parse(applicationPeriod)
-              : applicationPeriod;
+        if (
+          updateFields.enrollmentLimit !== undefined &&
+          updateFields.enrollmentLimit < course.currentEnrollment
+        ) {
+          return res.status(400).json({
+            code: "Error-01-0010",
+            status: "Error",
+            message: `Enrollment limit cannot be lower than the ${course.currentEnrollment} users already registered`,
+          });
+        }
 
-          const { from, to } = parsedApplicationPeriod || {};
+        if (req.file) {
+          const uploadResponse = await uploadCourseImage(
+            req.file,
+            updateFields.courseName || course.courseName
+          );
+          updateFields.imageUrl = uploadResponse.secure_url;
+        }
 
-          if (!from || !to) {
-            return res.status(400).json({
-              code: "Error-01-0006",
-              status: "Error",
-              message:
-                "Both startDate and endDate are required in applicationPeriod",
-            });
+        // Keep the Stripe product in sync so checkout shows the current details
+        let stripeProductId = course.stripeProductId;
+        if (!stripeProductId) {
+          const stripeProduct = await stripe.products.create({
+            name: updateFields.courseName || course.courseName,
+            description: updateFields.description || course.description,
+            images: [updateFields.imageUrl || course.imageUrl].filter(Boolean),
+            metadata: { courseId, courseCode: course.courseCode },
+          });
+          stripeProductId = stripeProduct.id;
+          updateFields.stripeProductId = stripeProductId;
+        } else if (
+          updateFields.courseName ||
+          updateFields.description ||
+          updateFields.imageUrl
+        ) {
+          await stripe.products.update(stripeProductId, {
+            ...(updateFields.courseName && { name: updateFields.courseName }),
+            ...(updateFields.description && {
+              description: updateFields.description,
+            }),
+            ...(updateFields.imageUrl && { images: [updateFields.imageUrl] }),
+          });
+        }
+
+        // Stripe prices are immutable, so a new price replaces the old one
+        if (
+          (updateFields.price !== undefined &&
+            updateFields.price !== course.price) ||
+          !course.stripePriceId
+        ) {
+          const stripePrice = await stripe.prices.create({
+            unit_amount: Math.round((updateFields.price ?? course.price) * 100), // Convert to satangs
+            currency: "thb",
+            product: stripeProductId,
+          });
+          updateFields.stripePriceId = stripePrice.id;
+
+          if (course.stripePriceId) {
+            await stripe.prices.update(course.stripePriceId, { active: false });
           }
+        }
 
-          const startDate = new Date(from);
-          const endDate = new Date(to);
+        const updatedCourse = await Course.findOneAndUpdate(
+          { courseId },
+          { $set: updateFields },
+          { new: true }
+        );
 
-          parsedApplicationPeriod = { startDate, endDate };
-          // Add to updateFields only if valid
-          updateFields.applicationPeriod = parsedApplicationPeriod;
-        } catch (error) {
-          return res.status(400).json({
-            code: "Error-01-0007",
+        // A higher limit frees seats for people on the waitlist
+        if (
+          updateFields.enrollmentLimit !== undefined &&
+          updateFields.enrollmentLimit > course.enrollmentLimit
+        ) {
+          await promoteFromWaitlist(courseId);
+        }
+
+        // Registered users keep a copy of the course details in trainingInfo
+        const trainingInfoFields: Record<string, any> = {};
+        for (const field of [
+          "courseName",
+          "description",
+          "location",
+          "courseDate",
+          "hours",
+        ]) {
+          if (updateFields[field] !== undefined) {
+            trainingInfoFields[`trainingInfo.$.${field}`] = updateFields[field];
+          }
+        }
+        if (updateFields.imageUrl) {
+          trainingInfoFields["trainingInfo.$.courseImage"] =
+            updateFields.imageUrl;
+        }
+        if (Object.keys(trainingInfoFields).length) {
+          await User.updateMany(
+            { "trainingInfo.courseId": courseId },
+            { $set: trainingInfoFields }
+          );
+        }
+
+        return res.status(200).json({
+          code: "Success-01-0001",
+          status: "Success",
+          message: "Course updated successfully",
+          data: updatedCourse && serializeCourse(updatedCourse, req.user),
+        });
+      } catch (error) {
+        console.error("Error updating course:", error);
+        return res.status(500).json({
+          code: "Error-01-0003",
+          status: "Error",
+          message: "Failed to update course",
+        });
+      }
+    }
+  )
+);
+
+// Moves a course to the given status if its current status allows it
+function transitionCourse(
+  courseId: string,
+  to: CourseStatus,
+  extraFields: Record<string, any> = {}
+) {
+  return Course.findOneAndUpdate(
+    { courseId, ...courseStatusFilter(statusesAllowedBefore(to)) },
+    {
+      $set: {
+        status: to,
+        isPublished: isPublishedStatus(to),
+        statusUpdatedAt: new Date(),
+        ...extraFields,
+      },
+    },
+    { new: true }
+  );
+}
+
+/**
+ * @swagger
+ * /api/v1/courses/{courseId}/publish:
+ *   post:
+ *     summary: Publish a draft course, or reopen its registration
+ *     description: >
+ *       Requires the `course:manage` permission. Allowed from draft and
+ *       registration_closed.
+ *     tags: [Courses]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: courseId
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Course status changed successfully.
+ *       403:
+ *         description: Missing the required permission.
+ *       404:
+ *         description: Course not found.
+ *       409:
+ *         description: The course cannot move to this status from its current one.
+ * /api/v1/courses/{courseId}/unpublish:
+ *   post:
+ *     summary: Move a published course without registrations back to draft
+ *     description: Requires the `course:manage` permission.
+ *     tags: [Courses]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: courseId
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Course status changed successfully.
+ *       403:
+ *         description: Missing the required permission.
+ *       404:
+ *         description: Course not found.
+ *       409:
+ *         description: The course is not published or already has registrations.
+ * /api/v1/courses/{courseId}/close-registration:
+ *   post:
+ *     summary: Stop accepting registrations for a published course
+ *     description: Requires the `course:manage` permission.
+ *     tags: [Courses]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: courseId
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Course status changed successfully.
+ *       403:
+ *         description: Missing the required permission.
+ *       404:
+ *         description: Course not found.
+ *       409:
+ *         description: The course cannot move to this status from its current one.
+ * /api/v1/courses/{courseId}/complete:
+ *   post:
+ *     summary: Mark a course whose registration is closed as completed
+ *     description: Requires the `course:manage` permission.
+ *     tags: [Courses]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: courseId
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Course status changed successfully.
+ *       403:
+ *         description: Missing the required permission.
+ *       404:
+ *         description: Course not found.
+ *       409:
+ *         description: The course cannot move to this status from its current one.
+ * /api/v1/courses/{courseId}/archive:
+ *   post:
+ *     summary: Archive a completed or cancelled course
+ *     description: Requires the `course:manage` permission.
+ *     tags: [Courses]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: courseId
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Course status changed successfully.
+ *       403:
+ *         description: Missing the required permission.
+ *       404:
+ *         description: Course not found.
+ *       409:
+ *         description: The course cannot move to this status from its current one.
+ */
+
+const STATUS_ACTIONS: Record<string, CourseStatus> = {
+  publish: "published",
+  unpublish: "draft",
+  "close-registration": "registration_closed",
+  complete: "completed",
+  archive: "archived",
+};
+
+for (const [action, to] of Object.entries(STATUS_ACTIONS)) {
+  course.post(
+    `/courses/:courseId/${action}`,
+    verifyJWT,
+    requirePermission("course:manage"),
+    validated({ params: { courseId: string() } }, async (req, res) => {
+      const { courseId } = req.params;
+
+      try {
+        const existingCourse = await Course.findOne({ courseId });
+        if (!existingCourse) {
+          return res.status(404).json({
+            code: "Error-01-0002",
+            status: "Error",
+            message: "Course not found",
+          });
+        }
+
+        const from = getCourseStatus(existingCourse);
+
+        if (to === "draft" && existingCourse.currentEnrollment > 0) {
+          return res.status(409).json({
+            code: "Error-01-0012",
             status: "Error",
-            message: "Invalid applicationPeriod format",
+            message: "A course with registered users cannot be unpublished",
           });
         }
+
+        const updatedCourse = await transitionCourse(courseId, to);
+        if (!updatedCourse) {
+          return res.status(409).json({
+            code: "Error-01-0011",
+            status: "Error",
+            message: `Course cannot move from ${from} to ${to}`,
+          });
+        }
+
+        res.status(200).json({
+          code: "Success-01-0003",
+          status: "Success",
+          message: `Course status changed from ${from} to ${to}`,
+          data: serializeCourse(updatedCourse, req.user),
+        });
+      } catch (error) {
+        console.error("Error changing course status:", error);
+        res.status(500).json({
+          code: "Error-03-0001",
+          status: "Error",
+          message: "Internal server error",
+        });
       }
+    })
+  );
+}
 
-      // Find the course in the database
+/**
+ * @swagger
+ * /api/v1/courses/{courseId}/cancel:
+ *   post:
+ *     summary: Cancel a course, refunding and notifying its registrants
+ *     description: >
+ *       Requires the `course:manage` permission. Allowed from draft,
+ *       published and registration_closed. Every paid order for the course
+ *       is refunded in full, checkouts still awaiting payment are closed and
+ *       every registrant is emailed.
+ *     tags: [Courses]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: courseId
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: >
+ *           Course cancelled. The data lists how many refunds and emails were
+ *           sent, how many checkouts were closed and which ones failed.
+ *       400:
+ *         $ref: '#/components/responses/InvalidRequest'
+ *       403:
+ *         description: Missing the required permission.
+ *       404:
+ *         description: Course not found.
+ *       409:
+ *         description: The course cannot be cancelled from its current status.
+ */
+
+course.post(
+  "/courses/:courseId/cancel",
+  verifyJWT,
+  requirePermission("course:manage"),
+  validated(
+    { params: { courseId: string() }, body: { reason: optional(string()) } },
+    async (req, res) => {
+      const { courseId } = req.params;
+      const { reason } = req.body;
+
+      try {
+        const existingCourse = await Course.findOne({ courseId });
+        if (!existingCourse) {
+          return res.status(404).json({
+            code: "Error-01-0002",
+            status: "Error",
+            message: "Course not found",
+          });
+        }
+
+        const from = getCourseStatus(existingCourse);
+        const cancelledCourse = await transitionCourse(courseId, "cancelled", {
+          cancellationReason: reason,
+        });
+        if (!cancelledCourse) {
+          return res.status(409).json({
+            code: "Error-01-0011",
+            status: "Error",
+            message: `Course cannot move from ${from} to cancelled`,
+          });
+        }
+
+        const result = await settleCancelledCourse(cancelledCourse, reason);
+
+        res.status(200).json({
+          code: "Success-01-0004",
+          status: "Success",
+          message: "Course cancelled successfully",
+          data: result,
+        });
+      } catch (error) {
+        console.error("Error cancelling course:", error);
+        res.status(500).json({
+          code: "Error-03-0001",
+          status: "Error",
+          message: "Internal server error",
+        });
+      }
+    }
+  )
+);
+
+/**
+ * @swagger
+ * /api/v1/cancelRegistration:
+ *   post:
+ *     summary: Cancel the logged-in user's registration for a course
+ *     description: >
+ *       Requires the `course:register` permission. The payment is refunded
+ *       according to the refund policy: in full when cancelling at least
+ *       REFUND_FULL_DAYS (14) days before the course, REFUND_PARTIAL_PERCENT
+ *       (50%) when at least REFUND_PARTIAL_DAYS (7) days before, and not at
+ *       all after that.
+ *     tags: [Courses]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               courseId:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Registration cancelled; the data holds the refund.
+ *       400:
+ *         description: Missing course ID (Error-02-0019), not registered, or the course has started.
+ *       415:
+ *         $ref: '#/components/responses/UnsupportedMediaType'
+ *       403:
+ *         description: Missing the required permission.
+ *       404:
+ *         description: Course not found.
+ *       500:
+ *         description: Internal server error.
+ */
+
+course.post(
+  "/cancelRegistration",
+  verifyJWT,
+  requirePermission("course:register"),
+  validated({ body: { courseId: string() } }, async (req, res) => {
+    const { courseId } = req.body;
+
+    try {
       const course = await Course.findOne({ courseId });
       if (!course) {
         return res.status(404).json({
-          code: "Error-01-0002",
+          code: "Error-02-0002",
           status: "Error",
           message: "Course not found",
         });
       }
 
-      // If an image is uploaded, handle it (e.g., upload to Cloudinary)
-      if (req.file) {
-        updateFields.imageUrl = req.file.path;
+      const now = new Date();
+      if (course.courseDate <= now) {
+        return res.status(400).json({
+          code: "Error-02-0012",
+          status: "Error",
+          message: "Registration cannot be cancelled after the course started",
+        });
       }
 
-      // // Update the course
-      // const updateResponse = await Course.updateOne(
-      //   { courseId },
-      //   { $set: updateFields }
-      // );
+      const result = await cancelRegistration(
+        req.user.userId,
+        course,
+        refundPercentFor(course.courseDate, now)
+      );
+      if (!result) {
+        return res.status(400).json({
+          code: "Error-02-0013",
+          status: "Error",
+          message: "You are not registered for this course",
+        });
+      }
 
-      return res.status(200).json({
-        code: "Success-01-0001",
+      res.status(200).json({
+        code: "Success-02-0005",
         status: "Success",
-        message: "Course updated successfully",
+        message: "Registration cancelled successfully",
+        data: result,
       });
     } catch (error) {
-      console.error("Error updating course:", error);
-      return res.status(500).json({
-        code: "Error-01-0003",
+      console.error("Error cancelling registration:", error);
+      res.status(500).json({
+        code: "Error-03-0001",
         status: "Error",
-        message: "Failed to update course",
+        message: "Internal server error",
       });
     }
-  }
+  })
 );
 
 /**
  * @swagger
- * /api/v1/generateCode:
- *   post:
- *     summary: Generate a course code for a specific course
+ * /api/v1/courses/{courseId}/registrants/{userId}:
+ *   delete:
+ *     summary: Remove a registrant from a course on their behalf
+ *     description: >
+ *       Requires the `course:manage` permission. The refund follows the
+ *       refund policy unless refundPercent overrides it.
  *     tags: [Courses]
  *     security:
- *       - bearerAuth: []  # Indicates the need for a JWT token
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: courseId
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - name: userId
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
  *     requestBody:
- *       required: true
  *       content:
  *         application/json:
  *           schema:
  *             type: object
  *             properties:
- *               courseId:
- *                 type: string
- *                 example: "1234abcd"
+ *               refundPercent:
+ *                 type: number
+ *                 minimum: 0
+ *                 maximum: 100
  *     responses:
  *       200:
- *         description: Code generated and saved successfully.
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 code:
- *                   type: string
- *                   example: "Success-01-0002"
- *                 status:
- *                   type: string
- *                   example: "Success"
- *                 message:
- *                   type: string
- *                   example: "Code generated and saved successfully."
- *                 data:
- *                   type: object
- *                   properties:
- *                     generatedCode:
- *                       type: string
- *                       example: "5678"
+ *         description: Registrant removed; the data holds the refund.
  *       400:
- *         description: Invalid input or code generation failed.
+ *         description: Invalid refundPercent (Error-02-0019) or user not registered.
+ *       415:
+ *         $ref: '#/components/responses/UnsupportedMediaType'
+ *       403:
+ *         description: Missing the required permission.
  *       404:
  *         description: Course not found.
  *       500:
  *         description: Internal server error.
  */
 
+course.delete(
+  "/courses/:courseId/registrants/:userId",
+  verifyJWT,
+  requirePermission("course:manage"),
+  validated(
+    {
+      params: { courseId: string(), userId: string() },
+      body: { refundPercent: optional(number({ min: 0, max: 100 })) },
+    },
+    async (req, res) => {
+      const { courseId, userId } = req.params;
+      const { refundPercent } = req.body;
+
+      try {
+        const course = await Course.findOne({ courseId });
+        if (!course) {
+          return res.status(404).json({
+            code: "Error-02-0002",
+            status: "Error",
+            message: "Course not found",
+          });
+        }
+
+        const result = await cancelRegistration(
+          userId,
+          course,
+          refundPercent ?? refundPercentFor(course.courseDate)
+        );
+        if (!result) {
+          return res.status(400).json({
+            code: "Error-02-0013",
+            status: "Error",
+            message: "User is not registered for this course",
+          });
+        }
+
+        res.status(200).json({
+          code: "Success-02-0006",
+          status: "Success",
+          message: "Registrant removed successfully",
+          data: result,
+        });
+      } catch (error) {
+        console.error("Error removing registrant:", error);
+        res.status(500).json({
+          code: "Error-03-0001",
+          status: "Error",
+          message: "Internal server error",
+        });
+      }
+    }
+  )
+);
+
+/**
+ * @swagger
+ * /api/v1/courses/{courseId}/waitlist:
+ *   get:
+ *     summary: Show the logged-in user's place on a course's seat waitlist
+ *     description: Requires the `course:register` permission.
+ *     tags: [Courses]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: courseId
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: >
+ *           Waitlist entry retrieved. Position is 0 once a seat has been
+ *           offered, in which case holdExpiresAt says when the offer lapses.
+ *       403:
+ *         description: Missing the required permission.
+ *       404:
+ *         description: Course not found or user not on the waitlist.
+ *   post:
+ *     summary: Join the seat waitlist of a fully booked course
+ *     description: Requires the `course:register` permission.
+ *     tags: [Courses]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: courseId
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Joined the waitlist; the data holds the position.
+ *       400:
+ *         description: >
+ *           Course not open, already registered, already waiting, or seats
+ *           are still available.
+ *       403:
+ *         description: Missing the required permission, or the email address is not verified.
+ *       404:
+ *         description: Course not found.
+ *   delete:
+ *     summary: Leave the seat waitlist, giving up any seat on hold
+ *     description: Requires the `course:register` permission.
+ *     tags: [Courses]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: courseId
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Left the waitlist.
+ *       403:
+ *         description: Missing the required permission.
+ *       404:
+ *         description: Course not found or user not on the waitlist.
+ */
+
+course.get(
+  "/courses/:courseId/waitlist",
+  verifyJWT,
+  requirePermission("course:register"),
+  validated({ params: { courseId: string() } }, async (req, res) => {
+    const { courseId } = req.params;
+
+    try {
+      // Reading the waitlist is also when lapsed holds move on
+      await promoteFromWaitlist(courseId);
+
+      const course = await Course.findOne({ courseId });
+      const entry = course && findWaitlistEntry(course, req.user.userId);
+      if (!course || !entry) {
+        return res.status(404).json({
+          code: "Error-02-0010",
+          status: "Error",
+          message: "You are not on the waitlist for this course",
+        });
+      }
+
+      res.status(200).json({
+        code: "Success-02-0003",
+        status: "Success",
+        message: "Waitlist entry retrieved successfully",
+        data: {
+          status: entry.status,
+          position: waitlistPosition(course, req.user.userId),
+          joinedAt: entry.joinedAt,
+          holdExpiresAt: entry.holdExpiresAt,
+        },
+      });
+    } catch (error) {
+      console.error("Error fetching waitlist entry:", error);
+      res.status(500).json({
+        code: "Error-03-0001",
+        status: "Error",
+        message: "Internal server error",
+      });
+    }
+  })
+);
+
+course.post(
+  "/courses/:courseId/waitlist",
+  verifyJWT,
+  requirePermission("course:register"),
+  validated({ params: { courseId: string() } }, async (req, res) => {
+    const { courseId } = req.params;
+
+    try {
+      const course = await Course.findOne({ courseId });
+      const user = await User.findOne({ userId: req.user.userId });
+      if (!course || !user) {
+        return res.status(404).json({
+          code: "Error-02-0002",
+          status: "Error",
+          message: "Course not found",
+        });
+      }
+
+      // Only a "fully booked" refusal means the user should wait for a seat
+      const registrationError = checkRegistration(user, course);
+      if (!registrationError) {
+        return res.status(400).json({
+          code: "Error-02-0011",
+          status: "Error",
+          message: "Seats are still available, please register instead",
+        });
+      }
+      if (registrationError.code !== "Error-02-0006") {
+        return res.status(registrationError.status).json({
+          code: registrationError.code,
+          status: "Error",
+          message: registrationError.message,
+        });
+      }
+
+      if (findWaitlistEntry(course, user.userId)) {
+        return res.status(400).json({
+          code: "Error-02-0009",
+          status: "Error",
+          message: "You are already on the waitlist for this course",
+        });
+      }
+
+      course.seatWaitlist.push({
+        userId: user.userId,
+        name: user.name,
+        email: user.email,
+        joinedAt: new Date(),
+        status: "waiting",
+      });
+      await course.save();
+
+      res.status(200).json({
+        code: "Success-02-0002",
+        status: "Success",
+        message: "Joined the waitlist successfully",
+        data: { position: waitlistPosition(course, user.userId) },
+      });
+    } catch (error) {
+      console.error("Error joining waitlist:", error);
+      res.status(500).json({
+        code: "Error-03-0001",
+        status: "Error",
+        message: "Internal server error",
+      });
+    }
+  })
+);
+
+course.delete(
+  "/courses/:courseId/waitlist",
+  verifyJWT,
+  requirePermission("course:register"),
+  validated({ params: { courseId: string() } }, async (req, res) => {
+    const { courseId } = req.params;
+
+    try {
+      const course = await Course.findOne({ courseId });
+      const entry = course && findWaitlistEntry(course, req.user.userId);
+      if (!course || !entry) {
+        return res.status(404).json({
+          code: "Error-02-0010",
+          status: "Error",
+          message: "You are not on the waitlist for this course",
+        });
+      }
+
+      const wasOffered = entry.status === "offered";
+      entry.status = "left";
+      await course.save();
+
+      // A seat held for this user goes to the next person in line
+      if (wasOffered) {
+        await promoteFromWaitlist(courseId);
+      }
+
+      res.status(200).json({
+        code: "Success-02-0004",
+        status: "Success",
+        message: "Left the waitlist successfully",
+      });
+    } catch (error) {
+      console.error("Error leaving waitlist:", error);
+      res.status(500).json({
+        code: "Error-03-0001",
+        status: "Error",
+        message: "Internal server error",
+      });
+    }
+  })
+);
+
 /**
  * @swagger
  * /api/v1/registerCourse:
  *   post:
  *     summary: Register a user for a course
+ *     description: Requires the `course:register` permission.
  *     tags: [Courses]
  *     security:
  *       - bearerAuth: []
@@ -825,7 +1920,7 @@ course.post(
  *                   type: string
  *                   example: Registered successfully
  *       400:
- *         description: Missing required fields or registration closed.
+ *         description: Missing required fields (Error-02-0019) or registration closed.
  *         content:
  *           application/json:
  *             schema:
@@ -837,8 +1932,10 @@ course.post(
  *                   type: string
  *                 message:
  *                   type: string
- *       404:
- *         description: User or course not found.
+ *       415:
+ *         $ref: '#/components/responses/UnsupportedMediaType'
+ *       402:
+ *         description: The course is paid and must be bought through checkout.
  *         content:
  *           application/json:
  *             schema:
@@ -850,237 +1947,12 @@ course.post(
  *                   type: string
  *                 message:
  *                   type: string
- *       500:
- *         description: Internal server error.
- */
-
-course.post("/registerCourse", verifyJWT, async (req, res) => {
-  const { userId, courseId } = req.body;
-
-  if (!userId || !courseId) {
-    return res.status(400).json({
-      code: "Error-02-0001",
-      status: "Error",
-      message: "User ID and Course ID are required",
-    });
-  }
-
-  try {
-    const course = await Course.findOne({ courseId });
-    if (!course) {
-      return res.status(404).json({
-        code: "Error-02-0002",
-        status: "Error",
-        message: "Course not found",
-      });
-    }
-
-    const user = await User.findOne({ userId });
-    if (!user) {
-      return res.status(404).json({
-        code: "Error-02-0003",
-        status: "Error",
-        message: "User not found",
-      });
-    }
-
-    const now = new Date();
-    const { startDate, endDate } = course.applicationPeriod || {};
-    if (
-      !startDate ||
-      !endDate ||
-      now < new Date(startDate) ||
-      now > new Date(endDate)
-    ) {
-      return res.status(400).json({
-        code: "Error-02-0004",
-        status: "Error",
-        message: "Registration is not open during this period",
-      });
-    }
-
-    if (user.trainingInfo.some((info) => info.courseId === courseId)) {
-      return res.status(400).json({
-        code: "Error-02-0005",
-        status: "Error",
-        message: "Course already registered",
-      });
-    }
-
-    if (course.currentEnrollment >= course.enrollmentLimit) {
-      return res.status(400).json({
-        code: "Error-02-0006",
-        status: "Error",
-        message: "Course is fully booked",
-      });
-    }
-
-    user.trainingInfo.push({
-      courseId: course.courseId,
-      courseName: course.courseName,
-      description: course.description,
-      location: course.location,
-      courseDate: course.courseDate,
-      hours: course.hours,
-      courseImage: course.imageUrl,
-    });
-
-    course.currentEnrollment += 1;
-
-    course.registeredUsers.push({
-      _id: user._id,
-      userId: user.userId,
-      name: user.name,
-      email: user.email,
-      phonenumber: user.phonenumber,
-      idcard: user.idcard,
-      company: user.company,
-    });
-
-    await user.save();
-    await course.save();
-
-    res.status(200).json({
-      code: "Success-01-0002",
-      status: "Success",
-      message: "Registered successfully",
-    });
-  } catch (error) {
-    console.error("Error during registration:", error);
-    res.status(500).json({
-      code: "Error-03-0001",
-      status: "Error",
-      message: "Internal server error",
-    });
-  }
-});
-
-course.post("/generateCode", verifyJWT, async (req: Request, res: Response) => {
-  const { courseId } = req.body;
-
-  try {
-    // Validate input
-    if (!courseId) {
-      return res.status(400).json({
-        code: "Error-01-0001",
-        status: "Error",
-        message: "Course ID is required",
-      });
-    }
-
-    // Find the course
-    const course = await Course.findOne({ courseId });
-    if (!course) {
-      return res.status(404).json({
-        code: "Error-01-0003",
-        status: "Error",
-        message: "Course not found",
-      });
-    }
-
-    const { courseDate, hours, generatedCode, generatedCodeTimestamp } = course;
-
-    // Validate required fields
-    if (!courseDate || !hours) {
-      return res.status(400).json({
-        code: "Error-01-0007",
-        status: "Error",
-        message: "Course date and hours are required to generate a code.",
-      });
-    }
-
-    // Calculate course start and end times in UTC
-    const courseStartTime = new Date(courseDate);
-    const courseEndTime = new Date(courseStartTime);
-    courseEndTime.setHours(courseStartTime.getHours() + hours);
-
-    // Get the current time adjusted for GMT+7
-    const currentTime = new Date();
-    const currentTimeGMTPlus7 = new Date(
-      currentTime.getTime() + 7 * 60 * 60 * 1000 // Adjust to GMT+7
-    );
-
-    // Debug logs
-    // console.log("Current Time (UTC):", currentTime.toISOString());
-    // console.log("Current Time (GMT+7):", currentTimeGMTPlus7.toISOString());
-    // console.log("Course Start (UTC):", courseStartTime.toISOString());
-    // console.log("Course End (UTC):", courseEndTime.toISOString());
-
-    // Check if the current time (adjusted to GMT+7) is within the course period
-    if (currentTimeGMTPlus7 < courseStartTime) {
-      return res.status(400).json({
-        code: "Error-01-0004",
-        status: "Error",
-        message: "Code cannot be generated before the course starts.",
-      });
-    }
-
-    if (currentTimeGMTPlus7 > courseEndTime) {
-      return res.status(400).json({
-        code: "Error-01-0005",
-        status: "Error",
-        message: "The code generation period has expired.",
-      });
-    }
-
-    // Validate if a code has already been generated within the course period
-    if (generatedCode && generatedCodeTimestamp) {
-      const codeTimestamp = new Date(generatedCodeTimestamp);
-
-      
-      if (codeTimestamp >= courseStartTime && codeTimestamp <= courseEndTime) {
-        return res.status(400).json({
-          code: "Error-01-0006",
-          status: "Error",
-          message: "Code has already been generated for this course period.",
-        });
-      }
-    }
-
-    // Generate a new code
-    const newGeneratedCode = Math.floor(1000 + Math.random() * 9000).toString();
-    course.generatedCode = newGeneratedCode;
-    course.generatedCodeTimestamp = currentTimeGMTPlus7.toISOString(); // Store the GMT+7 timestamp
-
-    // Save the course with the new code
-    await course.save();
-
-    res.status(200).json({
-      code: "Success-01-0002",
-      status: "Success",
-      message: "Code generated and saved successfully.",
-    });
-  } catch (error) {
-    console.error("Error generating code:", error);
-    res.status(500).json({
-      code: "Error-01-0002",
-      status: "Error",
-      message: "An error occurred while generating the code.",
-    });
-  }
-});
-
-/**
- * @swagger
- * /api/v1/validateCode:
- *   post:
- *     summary: Validate a generated course code
- *     tags: [Courses]
- *     security:
- *       - bearerAuth: []  # Indicates the need for a JWT token
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             properties:
- *               enteredCode:
- *                 type: string
- *                 example: "5678"
- *     responses:
- *       200:
- *         description: Code is valid and waiting for admin approval.
+ *       403:
+ *         description: >
+ *           Missing the required permission, registering another user without
+ *           course:manage, or the email address is not verified.
+ *       404:
+ *         description: User or course not found.
  *         content:
  *           application/json:
  *             schema:
@@ -1088,132 +1960,121 @@ course.post("/generateCode", verifyJWT, async (req: Request, res: Response) => {
  *               properties:
  *                 code:
  *                   type: string
- *                   example: "Success-02-0001"
  *                 status:
  *                   type: string
- *                   example: "Success"
  *                 message:
  *                   type: string
- *                   example: "Code is valid waiting admin to approve."
- *       400:
- *         description: Invalid code or user not registered for the course.
- *       404:
- *         description: Course not found.
  *       500:
  *         description: Internal server error.
  */
 
-course.post("/validateCode", verifyJWT, async (req: Request, res: Response) => {
-  const { enteredCode } = req.body;
-
-  const user = req.user;
-
-  try {
-    // Validate input
-    if (!enteredCode) {
-      return res.status(400).json({
-        code: "Error-02-0001",
-        status: "Error",
-        message: "Code are required.",
-      });
-    }
-    // Find the course
-    const course = await Course.findOne({ generatedCode: enteredCode });
-    if (!course) {
-      return res.status(404).json({
-        code: "Error-02-0002",
-        status: "Error",
-        message: "Course not found.",
-      });
-    }
-
-    const { generatedCode, courseDate, hours, registeredUsers } = course;
-
-    // Validate the entered code
-    if (enteredCode !== generatedCode) {
-      return res.status(400).json({
-        code: "Error-02-0003",
-        status: "Error",
-        message: "Invalid code entered.",
-      });
-    }
-
-    // Check if the user is registered for the course
-    const isUserRegistered = registeredUsers.some(
-      (registeredUser: { userId: string }) =>
-        registeredUser.userId === user.userId
-    );
+course.post(
+  "/registerCourse",
+  verifyJWT,
+  requirePermission("course:register"),
+  validated(
+    { body: { userId: string(), courseId: string() } },
+    async (req, res) => {
+      const { userId, courseId } = req.body;
+
+      // Only course managers may register someone else
+      if (
+        userId !== req.user.userId &&
+        !hasPermission(req.user.role, "course:manage")
+      ) {
+        return res.status(403).json({
+          code: "Error-01-0010",
+          status: "Error",
+          message: "You do not have permission to perform this action.",
+        });
+      }
 
-    if (!isUserRegistered) {
-      return res.status(400).json({
-        code: "Error-02-0007",
-        status: "Error",
-        message: "You are not registered for this course.",
-      });
-    }
+      try {
+        const course = await Course.findOne({ courseId });
+        if (!course) {
+          return res.status(404).json({
+            code: "Error-02-0002",
+            status: "Error",
+            message: "Course not found",
+          });
+        }
 
-    // Validate the course timing
-    const courseStartTime = new Date(courseDate);
-    const courseEndTime = new Date(courseStartTime);
-    courseEndTime.setHours(courseStartTime.getHours() + hours);
+        const user = await User.findOne({ userId });
+        if (!user) {
+          return res.status(404).json({
+            code: "Error-02-0003",
+            status: "Error",
+            message: "User not found",
+          });
+        }
 
-    const currentTime = new Date();
-    const currentTimeGMTPlus7 = new Date(
-      currentTime.getTime() + 7 * 60 * 60 * 1000
-    );
+        // Paid courses are only enrolled through the Stripe webhook once the
+        // checkout session has been paid
+        if (course.price > 0) {
+          return res.status(402).json({
+            code: "Error-02-0007",
+            status: "Error",
+            message: "Payment is required to register for this course",
+          });
+        }
 
-    if (
-      currentTimeGMTPlus7 < courseStartTime ||
-      currentTimeGMTPlus7 > courseEndTime
-    ) {
-      return res.status(400).json({
-        code: "Error-02-0004",
-        status: "Error",
-        message: "Code already expired.",
-      });
-    }
+        const registrationError = checkRegistration(user, course);
+        if (registrationError) {
+          return res.status(registrationError.status).json({
+            code: registrationError.code,
+            status: "Error",
+            message: registrationError.message,
+          });
+        }
 
-    // Check if user is already in the waiting list
-    const isUserAlreadyInList = course.waitingForApproveList.some(
-      (item: { userId: string }) => item.userId === user.userId
-    );
+        // The checks above can race with other registrations; the atomic
+        // reservation has the final say
+        const result = await enrollUser(user, course);
+        if (result === "already-registered") {
+          return res.status(400).json({
+            code: "Error-02-0005",
+            status: "Error",
+            message: "Course already registered",
+          });
+        }
+        if (result === "registration-closed") {
+          return res.status(400).json({
+            code: "Error-02-0004",
+            status: "Error",
+            message: "Registration is not open during this period",
+          });
+        }
+        if (result !== "enrolled") {
+          return res.status(400).json({
+            code: "Error-02-0006",
+            status: "Error",
+            message: "Course is fully booked",
+          });
+        }
 
-    if (isUserAlreadyInList) {
-      return res.status(400).json({
-        code: "Error-02-0006",
-        status: "Error",
-        message: "User already in the waiting list for approval.",
-      });
+        res.status(200).json({
+          code: "Success-01-0002",
+          status: "Success",
+          message: "Registered successfully",
+        });
+      } catch (error) {
+        console.error("Error during registration:", error);
+        res.status(500).json({
+          code: "Error-03-0001",
+          status: "Error",
+          message: "Internal server error",
+        });
+      }
     }
-
-    course.waitingForApproveList.push({
-      userId: user.userId,
-      email: user.email,
-      timestamp: new Date().toISOString(),
-    });
-
-    await course.save();
-
-    res.status(200).json({
-      code: "Success-02-0001",
-      status: "Success",
-      message: "Code is valid waiting admin to approve.",
-    });
-  } catch (error) {
-    console.error("Error validating code:", error);
-    res.status(500).json({
-      code: "Error-03-0001",
-      status: "Error",
-      message: "Internal server error",
-    });
-  }
-});
+  )
+);
 
 /**
  * @swagger
  * /api/v1/waitingList:
  *   get:
  *     summary: Retrieve the waiting list for courses
+ *     description: Requires the `attendance:review` permission.
  *     tags: [Courses]
  *     security:
  *       - bearerAuth: []  # Indicates the need for a JWT token
@@ -1260,50 +2121,61 @@ course.post("/validateCode", verifyJWT, async (req: Request, res: Response) => {
  *                               type: string
  *                               format: date-time
  *                               example: "2024-01-01T12:00:00Z"
+ *       403:
+ *         description: Missing the required permission.
  *       404:
  *         description: No courses found with a waiting list.
  *       500:
  *         description: Internal server error.
  */
 
-course.get("/waitingList", verifyJWT, async (req: Request, res: Response) => {
-  try {
-    // Fetch courses with their waitingForApproveList
-    const courses = await Course.find(
-      { waitingForApproveList: { $exists: true, $ne: [] } }, // Find courses with non-empty waitingForApproveList
-      { courseId: 1, courseName: 1, waitingForApproveList: 1 } // only this 3  fields
-    );
-    // console.log(courses);
+course.get(
+  "/waitingList",
+  verifyJWT,
+  requirePermission("attendance:review"),
+  async (req: Request, res: Response) => {
+    try {
+      // Fetch courses with their waitingForApproveList
+      const courses = await Course.find(
+        { waitingForApproveList: { $exists: true, $ne: [] } }, // Find courses with non-empty waitingForApproveList
+        { courseId: 1, courseName: 1, waitingForApproveList: 1 } // only this 3  fields
+      );
+      // console.log(courses);
 
-    if (!courses || courses.length === 0) {
-      return res.status(404).json({
-        code: "Error-03-0001",
+      if (!courses || courses.length === 0) {
+        return res.status(404).json({
+          code: "Error-03-0001",
+          status: "Error",
+          message: "No courses found.",
+        });
+      }
+
+      res.status(200).json({
+        code: "Success-03-0001",
+        status: "Success",
+        message: "Waiting list retrieved successfully.",
+        data: courses,
+      });
+    } catch (error) {
+      console.error("Error fetching waiting list:", error);
+      res.status(500).json({
+        code: "Error-03-0002",
         status: "Error",
-        message: "No courses found.",
+        message: "An error occurred while retrieving the waiting list.",
       });
     }
-
-    res.status(200).json({
-      code: "Success-03-0001",
-      status: "Success",
-      message: "Waiting list retrieved successfully.",
-      data: courses,
-    });
-  } catch (error) {
-    console.error("Error fetching waiting list:", error);
-    res.status(500).json({
-      code: "Error-03-0002",
-      status: "Error",
-      message: "An error occurred while retrieving the waiting list.",
-    });
   }
-});
+);
 
 /**
  * @swagger
  * /api/v1/action:
  *   post:
  *     summary: Approve or reject a user from the waiting list
+ *     description: >
+ *       Requires the `attendance:approve` permission. Approving a user issues
+ *       their certificate of completion for the course and extends their
+ *       status validity according to the configured validity rules.
  *     tags: [Courses]
  *     security:
  *       - bearerAuth: []  # Indicates the need for a JWT token
@@ -1347,142 +2219,143 @@ course.get("/waitingList", verifyJWT, async (req: Request, res: Response) => {
  *                     userId:
  *                       type: string
  *                       example: "user123"
+ *                     certificateSerial:
+ *                       type: string
+ *                       description: Serial of the certificate issued on approval.
+ *                       example: "CERT-2024-9F3A61C2D4"
  *       400:
- *         description: Invalid input or action.
+ *         description: >
+ *           Invalid input or action (Error-02-0019), or (Error-03-0012) the
+ *           user has not attended the share of the course hours needed to be
+ *           approved.
+ *       415:
+ *         $ref: '#/components/responses/UnsupportedMediaType'
+ *       403:
+ *         description: Missing the required permission.
  *       404:
  *         description: User or course not found.
  *       500:
  *         description: Internal server error.
  */
-course.post("/action", verifyJWT, async (req, res) => {
-  const { userId, courseId, action } = req.body;
-
-  console.log("Request Body:", req.body);
-
-  if (!userId || !courseId || !["approve", "reject"].includes(action)) {
-    return res.status(400).json({
-      code: "Error-02-0001",
-      status: "Error",
-      message: "Invalid input or action. 'approve' or 'reject' is required.",
-    });
-  }
-
-  try {
-    // Find user and course
-    const user = await User.findOne({ userId }).exec();
-    const course = await Course.findOne({ courseId }).exec();
-
-    console.log("User Found:", user);
-    console.log("Course Found:", course);
-
-    if (!user || !course) {
-      return res.status(404).json({
-        code: "Error-03-0010",
-        status: "Error",
-        message: "User or course not found.",
-      });
-    }
-
-    if (action === "reject") {
-      // Handle "reject" action
-      const updateResult = await Course.updateOne(
-        { courseId: courseId },
-        { $pull: { waitingForApproveList: { userId } } }
-      );
-
-      console.log("Reject Update Result:", updateResult);
-
-      return res.status(200).json({
-        code: "Success-01-0001",
-        status: "Success",
-        message: "User rejected successfully.",
-      });
-    } else if (action === "approve") {
-      const now = new Date();
-
-      // Initialize `statusStartDate` if not set
-      if (!user.statusStartDate) {
-        user.statusStartDate = now;
-
-        // Set `statusEndDate` to 2 years from `statusStartDate`
-        const initialEndDate = new Date(user.statusStartDate);
-        initialEndDate.setFullYear(initialEndDate.getFullYear() + 2);
-        user.statusEndDate = initialEndDate;
-      } else {
-        const maxAllowedEndDate = new Date(user.statusStartDate);
-        maxAllowedEndDate.setFullYear(maxAllowedEndDate.getFullYear() + 2); // Maximum allowed date: 2 years
+course.post(
+  "/action",
+  verifyJWT,
+  requirePermission("attendance:approve"),
+  validated(
+    {
+      body: {
+        userId: string(),
+        courseId: string(),
+        action: oneOf(["approve", "reject"]),
+      },
+    },
+    async (req, res) => {
+      const { userId, courseId, action } = req.body;
+
+      try {
+        // Find user and course
+        const user = await User.findOne({ userId }).exec();
+        const course = await Course.findOne({ courseId }).exec();
+
+        if (!user || !course) {
+          return res.status(404).json({
+            code: "Error-03-0010",
+            status: "Error",
+            message: "User or course not found.",
+          });
+        }
 
-        let currentEndDate = user.statusEndDate
-          ? new Date(user.statusEndDate)
-          : new Date(user.statusStartDate);
+        if (action === "reject") {
+          // Handle "reject" action
+          await Course.updateOne(
+            { courseId: courseId },
+            { $pull: { waitingForApproveList: { userId } } }
+          );
 
-        if (currentEndDate <= now) {
-          // If expired, reset to 1 year from now or cap at maxAllowedEndDate
-          currentEndDate = new Date(now);
-          currentEndDate.setFullYear(currentEndDate.getFullYear() + 1);
+          await notifyUser(user, "attendance-rejected", {
+            name: user.name,
+            courseName: course.courseName,
+          });
 
-          // Cap at max allowed
-          if (currentEndDate > maxAllowedEndDate) {
-            currentEndDate = maxAllowedEndDate;
-          }
-        } else {
-          // Add proportional time
-          const remainingTime =
-            maxAllowedEndDate.getTime() - currentEndDate.getTime();
-          const oneYearInMs = 365 * 24 * 60 * 60 * 1000;
-
-          if (remainingTime >= oneYearInMs) {
-            // If reduced by 1 year or more, add back 1 year
-            currentEndDate.setFullYear(currentEndDate.getFullYear() + 1);
-          } else {
-            // Add proportional time (less than 1 year)
-            const remainingDuration = new Date(remainingTime);
-            const addMonths = remainingDuration.getUTCMonth();
-            const addDays = remainingDuration.getUTCDate() - 1;
-
-            currentEndDate.setMonth(currentEndDate.getMonth() + addMonths);
-            currentEndDate.setDate(currentEndDate.getDate() + addDays);
+          return res.status(200).json({
+            code: "Success-01-0001",
+            status: "Success",
+            message: "User rejected successfully.",
+          });
+        } else if (action === "approve") {
+          // Only registrants who attended enough of the course can be approved
+          const attendance = await attendanceFor(course, userId);
+          if (!attendance.completed) {
+            return res.status(400).json({
+              code: "Error-03-0012",
+              status: "Error",
+              message: `User attended ${attendance.attendedHours} of ${attendance.totalHours} hours; ${attendance.requiredPercent}% is required.`,
+              data: attendance,
+            });
           }
-        }
 
-        // Cap the `statusEndDate` at `statusStartDate + 2 years`
-        user.statusEndDate =
-          currentEndDate > maxAllowedEndDate
-            ? maxAllowedEndDate
-            : currentEndDate;
-      }
+          // Approving the same user again, even concurrently, must not
+          // extend their status twice
+          const { certificate, created } = await issueCertificate(
+            user,
+            course,
+            req.user.userId
+          );
+
+          if (created) {
+            const validity = applyCourseCredit(
+              {
+                statusStartDate: user.statusStartDate ?? undefined,
+                statusEndDate: user.statusEndDate ?? undefined,
+              },
+              course.hours,
+              new Date()
+            );
+            user.statusStartDate = validity.statusStartDate;
+            user.statusEndDate = validity.statusEndDate;
+            // Renewing reactivates a status the nightly job marked as expired
+            if (user.statusEndDate && user.statusEndDate > new Date()) {
+              user.status = "Active";
+            }
+            // The remaining time is formatted when the user is read
+            user.statusDuration = undefined;
+            user.statusExpiration = undefined;
+            await user.save();
+          }
 
-      // Calculate `statusDuration` and expiration
-      const diffTime = user.statusEndDate.getTime() - now.getTime();
-      if (diffTime > 0) {
-        const diffDate = new Date(diffTime);
-        const remainingYears = diffDate.getUTCFullYear() - 1970;
-        const remainingMonths = diffDate.getUTCMonth();
-        const remainingDays = diffDate.getUTCDate() - 1;
+          await Course.updateOne(
+            { courseId },
+            { $pull: { waitingForApproveList: { userId } } }
+          );
+
+          await notifyUser(
+            user,
+            "attendance-approved",
+            {
+              name: user.name,
+              courseName: course.courseName,
+              certificateSerial: certificate.serial,
+              statusEndDate: user.statusEndDate ?? undefined,
+            },
+            { dedupeKey: `approved:${certificate.serial}` }
+          );
+
+          return res.status(200).json({
+            code: "Success-03-0002",
+            status: "Success",
+            message: "User approved successfully.",
+            data: { userId, certificateSerial: certificate.serial },
+          });
+        }
+      } catch (error) {
+        console.error("Error processing action:", error);
 
-        user.statusDuration = `${remainingYears} ปี ${remainingMonths} เดือน ${remainingDays} วัน`;
-        user.statusExpiration = `${remainingYears} ปี ${remainingMonths} เดือน ${remainingDays} วัน`;
-      } else {
-        user.statusDuration = `0 ปี 0 เดือน 0 วัน`;
-        user.statusExpiration = `0 ปี 0 เดือน 0 วัน`;
+        return res.status(500).json({
+          code: "Error-03-0011",
+          status: "Error",
+          message: "An error occurred.",
+        });
       }
-
-      const saveResult = await user.save();
-      console.log("User Save Result:", saveResult);
-
-      return res.status(200).json({
-        code: "Success-03-0002",
-        status: "Success",
-        message: "User approved successfully.",
-      });
     }
-  } catch (error) {
-    console.error("Error processing action:", error);
-
-    return res.status(500).json({
-      code: "Error-03-0011",
-      status: "Error",
-      message: "An error occurred.",
-    });
-  }
-});
+  )
+);
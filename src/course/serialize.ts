@@ -0,0 +1,49 @@
+import { hasPermission } from "../../middleware/middleware";
+import { serializeRegistrant } from "../users/serialize";
+
+interface Viewer {
+  userId: string;
+  role: string;
+}
+
+// Staff who manage a course or review its attendance
+function isCourseStaff(viewer: Viewer) {
+  return (
+    hasPermission(viewer.role, "course:manage") ||
+    hasPermission(viewer.role, "attendance:review")
+  );
+}
+
+// Course details are shared with everyone who can see the course; the people
+// registered or waiting on it only with course staff. Everyone else just
+// learns whether they are registered themselves.
+export function serializeCourse(
+  course: { toObject?: () => any } & Record<string, any>,
+  viewer: Viewer
+) {
+  const {
+    attendanceSecret,
+    registeredUsers = [],
+    waitingForApproveList = [],
+    seatWaitlist = [],
+    ...data
+  } = typeof course.toObject === "function" ? course.toObject() : course;
+
+  const isRegistered = registeredUsers.some(
+    (registrant: { userId: string }) => registrant.userId === viewer.userId
+  );
+
+  if (!isCourseStaff(viewer)) {
+    return { ...data, isRegistered };
+  }
+
+  return {
+    ...data,
+    isRegistered,
+    registeredUsers: registeredUsers.map((registrant: Record<string, any>) =>
+      serializeRegistrant(registrant, viewer)
+    ),
+    waitingForApproveList,
+    seatWaitlist,
+  };
+}
@@ -0,0 +1,157 @@
+import { v4 as uuidv4 } from "uuid";
+import { Course } from "./model";
+
+type CourseDocument = InstanceType<typeof Course>;
+
+export interface CourseSession {
+  sessionId: string;
+  startTime: Date;
+  endTime: Date;
+  room?: string | null;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Share of the course hours a registrant must attend to be approved, unless
+// the course sets its own minAttendancePercent
+export const DEFAULT_MIN_ATTENDANCE_PERCENT = Number(
+  process.env.MIN_ATTENDANCE_PERCENT ?? 80
+);
+
+// Courses without sessions run as one block from courseDate for `hours`
+export function getCourseSessions(course: CourseDocument): CourseSession[] {
+  if (course.sessions && course.sessions.length) {
+    return course.sessions as CourseSession[];
+  }
+
+  const startTime = new Date(course.courseDate);
+  return [
+    {
+      sessionId: "main",
+      startTime,
+      endTime: new Date(startTime.getTime() + course.hours * HOUR_MS),
+      room: course.location,
+    },
+  ];
+}
+
+export function sessionHours(session: CourseSession) {
+  return (
+    (new Date(session.endTime).getTime() -
+      new Date(session.startTime).getTime()) /
+    HOUR_MS
+  );
+}
+
+// Course times are stored as Thai local time, so "now" is shifted to GMT+7
+// before comparing
+export function findCurrentSession(
+  course: CourseDocument,
+  now: Date = new Date()
+) {
+  const currentTimeGMTPlus7 = new Date(now.getTime() + 7 * HOUR_MS);
+
+  return getCourseSessions(course).find(
+    (session) =>
+      currentTimeGMTPlus7 >= new Date(session.startTime) &&
+      currentTimeGMTPlus7 <= new Date(session.endTime)
+  );
+}
+
+// Parses the `sessions` field of a course form: a JSON array of
+// { sessionId?, startTime, endTime, room }. Existing sessions keep their
+// sessionId, which must be unique; new ones are given one. Sessions may not
+// overlap and each must last between 1 and 24 hours.
+export function parseSessions(
+  input: unknown
+): { sessions: CourseSession[] } | { error: string } {
+  let raw: any;
+  try {
+    raw = typeof input === "string" ? JSON.parse(input) : input;
+  } catch (error) {
+    return { error: "Invalid sessions format" };
+  }
+
+  if (!Array.isArray(raw) || !raw.length) {
+    return { error: "Sessions must be a non-empty array" };
+  }
+
+  const sessions: CourseSession[] = [];
+  const sessionIds = new Set<string>();
+  for (const item of raw) {
+    const startTime = new Date(item?.startTime);
+    const endTime = new Date(item?.endTime);
+
+    if (isNaN(startTime.getTime()) || isNaN(endTime.getTime())) {
+      return { error: "Invalid date format for session startTime or endTime" };
+    }
+
+    if (item.sessionId !== undefined && typeof item.sessionId !== "string") {
+      return { error: "Invalid sessionId" };
+    }
+    // Attendance is recorded per sessionId, so two sessions must not share one
+    if (item.sessionId && sessionIds.has(item.sessionId)) {
+      return { error: `Duplicate sessionId: ${item.sessionId}` };
+    }
+
+    const session = {
+      sessionId: item.sessionId || uuidv4(),
+      startTime,
+      endTime,
+      room: item.room,
+    };
+    const hours = sessionHours(session);
+    if (hours < 1 || hours > 24) {
+      return { error: "Each session must last between 1 and 24 hours" };
+    }
+    sessionIds.add(session.sessionId);
+    sessions.push(session);
+  }
+
+  sessions.sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+  for (let i = 1; i < sessions.length; i++) {
+    if (sessions[i].startTime < sessions[i - 1].endTime) {
+      return { error: "Sessions must not overlap" };
+    }
+  }
+
+  return { sessions };
+}
+
+// The course fields that follow from its sessions
+export function sessionDerivedFields(sessions: CourseSession[]) {
+  return {
+    sessions,
+    courseDate: sessions[0].startTime,
+    hours: sessions.reduce(
+      (total, session) => total + sessionHours(session),
+      0
+    ),
+  };
+}
+
+// How much of the course a user attended, given the sessions they checked in to
+export function attendanceSummary(
+  course: CourseDocument,
+  attendedSessionIds: string[]
+) {
+  const sessions = getCourseSessions(course);
+  const totalHours = sessions.reduce(
+    (total, session) => total + sessionHours(session),
+    0
+  );
+  const attendedHours = sessions
+    .filter((session) => attendedSessionIds.includes(session.sessionId))
+    .reduce((total, session) => total + sessionHours(session), 0);
+  const attendedPercent = totalHours ? (attendedHours / totalHours) * 100 : 0;
+  const requiredPercent =
+    course.minAttendancePercent ?? DEFAULT_MIN_ATTENDANCE_PERCENT;
+
+  return {
+    attendedHours,
+    totalHours,
+    attendedPercent,
+    requiredPercent,
+    completed: attendedPercent >= requiredPercent,
+  };
+}
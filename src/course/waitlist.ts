@@ -0,0 +1,120 @@
+import { Course } from "./model";
+import { User } from "../users/model";
+import { getCourseStatus } from "./lifecycle";
+import { notifyUser } from "../notifications/notify";
+
+type CourseDocument = InstanceType<typeof Course>;
+
+// How long a promoted user has to claim the seat before it moves on
+export const SEAT_HOLD_MS = 24 * 60 * 60 * 1000;
+
+interface SeatWaitlistEntry {
+  userId: string;
+  name?: string | null;
+  email: string;
+  joinedAt: Date;
+  status: string;
+  offeredAt?: Date | null;
+  holdExpiresAt?: Date | null;
+}
+
+function isActiveHold(entry: SeatWaitlistEntry, now: Date) {
+  return (
+    entry.status === "offered" &&
+    !!entry.holdExpiresAt &&
+    entry.holdExpiresAt > now
+  );
+}
+
+export function findWaitlistEntry(course: CourseDocument, userId: string) {
+  return (course.seatWaitlist as SeatWaitlistEntry[]).find(
+    (entry) =>
+      entry.userId === userId &&
+      (entry.status === "waiting" || entry.status === "offered")
+  );
+}
+
+// Seats the given user could take: free seats minus those held for others
+export function seatsAvailableFor(
+  course: CourseDocument,
+  userId?: string,
+  now: Date = new Date()
+) {
+  const heldForOthers = (course.seatWaitlist as SeatWaitlistEntry[]).filter(
+    (entry) => isActiveHold(entry, now) && entry.userId !== userId
+  ).length;
+
+  return course.enrollmentLimit - course.currentEnrollment - heldForOthers;
+}
+
+// 1-based position among users still waiting, or 0 if not waiting
+export function waitlistPosition(course: CourseDocument, userId: string) {
+  const waiting = (course.seatWaitlist as SeatWaitlistEntry[]).filter(
+    (entry) => entry.status === "waiting"
+  );
+  return waiting.findIndex((entry) => entry.userId === userId) + 1;
+}
+
+// Expires lapsed holds and offers every free seat to the next waiting user,
+// emailing them a link to pay. Safe to call whenever a seat may have freed up.
+export async function promoteFromWaitlist(courseId: string) {
+  const course = await Course.findOne({ courseId });
+  if (!course || getCourseStatus(course) !== "published") {
+    return [];
+  }
+
+  const now = new Date();
+  const entries = course.seatWaitlist as SeatWaitlistEntry[];
+  let changed = false;
+
+  for (const entry of entries) {
+    if (
+      entry.status === "offered" &&
+      (!entry.holdExpiresAt || entry.holdExpiresAt <= now)
+    ) {
+      entry.status = "expired";
+      changed = true;
+    }
+  }
+
+  const offers: SeatWaitlistEntry[] = [];
+  let freeSeats = seatsAvailableFor(course, undefined, now);
+
+  for (const entry of entries) {
+    if (freeSeats <= 0) break;
+    if (entry.status !== "waiting") continue;
+
+    entry.status = "offered";
+    entry.offeredAt = now;
+    entry.holdExpiresAt = new Date(now.getTime() + SEAT_HOLD_MS);
+    offers.push(entry);
+    freeSeats -= 1;
+    changed = true;
+  }
+
+  if (!changed) {
+    return [];
+  }
+
+  await course.save();
+
+  for (const entry of offers) {
+    try {
+      const user = await User.findOne({ userId: entry.userId });
+      await notifyUser(
+        { userId: entry.userId, email: entry.email, locale: user?.locale },
+        "seat-offered",
+        {
+          name: entry.name || entry.email,
+          courseName: course.courseName,
+          holdExpiresAt: entry.holdExpiresAt!,
+          claimUrl: `${process.env.FRONTEND_URL}/courses/${course.courseId}`,
+        }
+      );
+    } catch (error) {
+      console.error("Error sending waitlist offer:", entry.userId, error);
+    }
+  }
+
+  return offers;
+}
@@ -0,0 +1,184 @@
+import { User } from "../users/model";
+import { Course } from "../course/model";
+import { Job } from "./runner";
+import { promoteFromWaitlist } from "../course/waitlist";
+import { courseStatusFilter, isPublishedStatus } from "../course/lifecycle";
+import { notifyUser, processOutbox } from "../notifications/notify";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const GMT_PLUS_7_MS = 7 * 60 * 60 * 1000;
+
+// Days before statusEndDate at which renewal reminders go out
+export const RENEWAL_REMINDER_DAYS = [90, 30, 7];
+export const COURSE_REMINDER_DAYS = 2;
+
+// Marks users whose status validity has ended as expired
+async function expireStatuses(now: Date) {
+  const result = await User.updateMany(
+    { status: "Active", statusEndDate: { $lte: now } },
+    { $set: { status: "Expired" } }
+  );
+  return { expired: result.modifiedCount };
+}
+
+// Sends each active user the reminder for the closest threshold they are
+// within. The dedupe key holds the statusEndDate, so missed runs catch up
+// without sending a reminder twice for the same validity period.
+async function sendRenewalReminders(now: Date) {
+  const thresholds = [...RENEWAL_REMINDER_DAYS].sort((a, b) => a - b);
+  const horizon = new Date(
+    now.getTime() + thresholds[thresholds.length - 1] * DAY_MS
+  );
+
+  const users = await User.find({
+    status: "Active",
+    statusEndDate: { $gt: now, $lte: horizon },
+  });
+
+  const result = { queued: 0, skipped: 0 };
+  for (const user of users) {
+    const statusEndDate = user.statusEndDate!;
+    const daysLeft = (statusEndDate.getTime() - now.getTime()) / DAY_MS;
+    const daysBefore = thresholds.find((days) => daysLeft <= days)!;
+    const dedupeKey = `renewal:${
+      user.userId
+    }:${statusEndDate.toISOString()}:${daysBefore}`;
+
+    const notification = await notifyUser(
+      user,
+      "renewal-reminder",
+      {
+        name: user.name,
+        daysBefore,
+        statusEndDate,
+        renewUrl: `${process.env.FRONTEND_URL}/courses`,
+      },
+      { dedupeKey }
+    );
+    if (notification) result.queued += 1;
+    else result.skipped += 1;
+  }
+
+  return result;
+}
+
+// Reminds registrants of courses starting within COURSE_REMINDER_DAYS
+async function sendCourseReminders(now: Date) {
+  // Course dates are stored as Thai local time
+  const currentTimeGMTPlus7 = new Date(now.getTime() + GMT_PLUS_7_MS);
+  const courses = await Course.find({
+    ...courseStatusFilter(["published", "registration_closed"]),
+    courseDate: {
+      $gt: currentTimeGMTPlus7,
+      $lte: new Date(
+        currentTimeGMTPlus7.getTime() + COURSE_REMINDER_DAYS * DAY_MS
+      ),
+    },
+  });
+
+  const result = { queued: 0, skipped: 0 };
+  for (const course of courses) {
+    for (const registrant of course.registeredUsers as {
+      userId: string;
+      name: string;
+      email: string;
+    }[]) {
+      const user = await User.findOne({ userId: registrant.userId });
+      const notification = await notifyUser(
+        user ?? registrant,
+        "course-reminder",
+        {
+          name: registrant.name,
+          courseName: course.courseName,
+          courseDate: course.courseDate,
+          location: course.location,
+        },
+        { dedupeKey: `course-reminder:${course.courseId}:${registrant.userId}` }
+      );
+      if (notification) result.queued += 1;
+      else result.skipped += 1;
+    }
+  }
+
+  return result;
+}
+
+// Moves published courses whose application period has ended to
+// registration_closed
+async function closeRegistration(now: Date) {
+  const result = await Course.updateMany(
+    {
+      ...courseStatusFilter(["published"]),
+      "applicationPeriod.endDate": { $lt: now },
+    },
+    {
+      $set: {
+        status: "registration_closed",
+        isPublished: isPublishedStatus("registration_closed"),
+        statusUpdatedAt: now,
+      },
+    }
+  );
+  return { closed: result.modifiedCount };
+}
+
+// Passes seats whose hold lapsed on to the next person on the waitlist
+async function expireSeatHolds(now: Date) {
+  const courses = await Course.find(
+    {
+      ...courseStatusFilter(["published"]),
+      seatWaitlist: {
+        $elemMatch: { status: "offered", holdExpiresAt: { $lte: now } },
+      },
+    },
+    { courseId: 1 }
+  );
+
+  let offers = 0;
+  for (const course of courses) {
+    offers += (await promoteFromWaitlist(course.courseId)).length;
+  }
+  return { courses: courses.length, offers };
+}
+
+export const JOBS: Job[] = [
+  {
+    name: "expire-statuses",
+    description: "Marks users whose status validity has ended as expired.",
+    schedule: { dailyAt: "00:05" },
+    run: expireStatuses,
+  },
+  {
+    name: "renewal-reminders",
+    description: `Emails users ${RENEWAL_REMINDER_DAYS.join(
+      ", "
+    )} days before their status expires.`,
+    schedule: { dailyAt: "09:00" },
+    run: sendRenewalReminders,
+  },
+  {
+    name: "close-registration",
+    description:
+      "Closes registration for published courses past their application period.",
+    schedule: { everyMinutes: 60 },
+    run: closeRegistration,
+  },
+  {
+    name: "course-reminders",
+    description: `Emails registrants of courses starting within ${COURSE_REMINDER_DAYS} days.`,
+    schedule: { dailyAt: "09:00" },
+    run: sendCourseReminders,
+  },
+  {
+    name: "send-notifications",
+    description: "Retries emails in the outbox that failed to send.",
+    schedule: { everyMinutes: 5 },
+    run: processOutbox,
+  },
+  {
+    name: "expire-seat-holds",
+    description: "Offers seats whose waitlist hold lapsed to the next user.",
+    schedule: { everyMinutes: 15 },
+    run: expireSeatHolds,
+  },
+];
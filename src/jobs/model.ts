@@ -0,0 +1,37 @@
+import mongoose from "mongoose";
+
+export const JOB_RUN_STATUSES = ["running", "succeeded", "failed"] as const;
+
+const jobRunSchema = new mongoose.Schema(
+  {
+    runId: { type: String, required: true, unique: true },
+    name: { type: String, required: true },
+    trigger: { type: String, enum: ["schedule", "manual"], required: true },
+    triggeredBy: { type: String }, // admin who started a manual run
+    instanceId: { type: String, required: true },
+    status: {
+      type: String,
+      enum: JOB_RUN_STATUSES,
+      default: "running",
+      required: true,
+    },
+    startedAt: { type: Date, required: true },
+    finishedAt: { type: Date },
+    result: { type: mongoose.Schema.Types.Mixed },
+    error: { type: String },
+  },
+  { timestamps: true }
+);
+
+jobRunSchema.index({ name: 1, startedAt: -1 });
+
+export const JobRun = mongoose.model("jobRuns", jobRunSchema);
+
+// One document per job; whoever holds an unexpired lock runs the job
+const jobLockSchema = new mongoose.Schema({
+  name: { type: String, required: true, unique: true },
+  lockedBy: { type: String },
+  lockedUntil: { type: Date, required: true },
+});
+
+export const JobLock = mongoose.model("jobLocks", jobLockSchema);
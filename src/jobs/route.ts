@@ -0,0 +1,223 @@
+import express, { Request, Response } from "express";
+import { JobRun, JOB_RUN_STATUSES } from "./model";
+import { JOBS } from "./jobs";
+import { runJobNow } from "./runner";
+import { requirePermission, verifyJWT } from "../../middleware/middleware";
+import {
+  oneOf,
+  optional,
+  PAGINATION_QUERY,
+  string,
+  validated,
+} from "../../middleware/validate";
+
+export const job = express.Router();
+
+/**
+ * @swagger
+ * /api/v1/admin/jobs:
+ *   get:
+ *     summary: List the scheduled jobs with their latest run
+ *     description: Requires the `job:manage` permission.
+ *     tags: [Jobs]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Jobs retrieved successfully.
+ *       403:
+ *         description: Missing the required permission.
+ *       500:
+ *         description: Internal server error.
+ */
+
+job.get(
+  "/admin/jobs",
+  verifyJWT,
+  requirePermission("job:manage"),
+  async (req: Request, res: Response) => {
+    try {
+      const data = await Promise.all(
+        JOBS.map(async ({ name, description, schedule }) => ({
+          name,
+          description,
+          schedule,
+          lastRun: await JobRun.findOne({ name }).sort({ startedAt: -1 }),
+        }))
+      );
+
+      res.status(200).json({
+        code: "Success-06-0001",
+        status: "Success",
+        message: "Jobs retrieved successfully",
+        data,
+      });
+    } catch (error) {
+      console.error("Error fetching jobs:", error);
+      res.status(500).json({
+        code: "Error-03-0001",
+        status: "Error",
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/admin/jobs/runs:
+ *   get:
+ *     summary: Retrieve the run history of scheduled jobs
+ *     description: Requires the `job:manage` permission.
+ *     tags: [Jobs]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: name
+ *         schema:
+ *           type: string
+ *           example: expire-statuses
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [running, succeeded, failed]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Job runs retrieved successfully, with the total count.
+ *       400:
+ *         $ref: '#/components/responses/InvalidRequest'
+ *       403:
+ *         description: Missing the required permission.
+ *       500:
+ *         description: Internal server error.
+ */
+
+job.get(
+  "/admin/jobs/runs",
+  verifyJWT,
+  requirePermission("job:manage"),
+  validated(
+    {
+      query: {
+        name: optional(string()),
+        status: optional(oneOf(JOB_RUN_STATUSES)),
+        ...PAGINATION_QUERY,
+      },
+    },
+    async (req, res) => {
+      const { name, status, page = 1, limit = 20 } = req.query;
+
+      const filter: Record<string, any> = {};
+      if (name) filter.name = name;
+      if (status) filter.status = status;
+
+      try {
+        const [runs, total] = await Promise.all([
+          JobRun.find(filter)
+            .sort({ startedAt: -1 })
+            .skip((page - 1) * limit)
+            .limit(limit),
+          JobRun.countDocuments(filter),
+        ]);
+
+        res.status(200).json({
+          code: "Success-06-0002",
+          status: "Success",
+          message: "Job runs retrieved successfully",
+          data: runs,
+          pagination: { page, limit, total },
+        });
+      } catch (error) {
+        console.error("Error fetching job runs:", error);
+        res.status(500).json({
+          code: "Error-03-0001",
+          status: "Error",
+          message: "Internal server error",
+        });
+      }
+    }
+  )
+);
+
+/**
+ * @swagger
+ * /api/v1/admin/jobs/{name}/run:
+ *   post:
+ *     summary: Run a scheduled job now
+ *     description: >
+ *       Requires the `job:manage` permission. Waits for the job to finish and
+ *       returns the recorded run. Does not affect the job's schedule.
+ *     tags: [Jobs]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: name
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Job ran; check the run status for the outcome.
+ *       403:
+ *         description: Missing the required permission.
+ *       404:
+ *         description: Unknown job.
+ *       409:
+ *         description: The job is already running.
+ *       500:
+ *         description: Internal server error.
+ */
+
+job.post(
+  "/admin/jobs/:name/run",
+  verifyJWT,
+  requirePermission("job:manage"),
+  validated({ params: { name: string() } }, async (req, res) => {
+    const definition = JOBS.find(({ name }) => name === req.params.name);
+    if (!definition) {
+      return res.status(404).json({
+        code: "Error-06-0002",
+        status: "Error",
+        message: "Job not found",
+      });
+    }
+
+    try {
+      const run = await runJobNow(definition, req.user.userId);
+      if (!run) {
+        return res.status(409).json({
+          code: "Error-06-0003",
+          status: "Error",
+          message: "This job is already running",
+        });
+      }
+
+      res.status(200).json({
+        code: "Success-06-0003",
+        status: "Success",
+        message: "Job run finished",
+        data: run,
+      });
+    } catch (error) {
+      console.error("Error running job:", error);
+      res.status(500).json({
+        code: "Error-03-0001",
+        status: "Error",
+        message: "Internal server error",
+      });
+    }
+  })
+);
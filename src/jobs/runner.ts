@@ -0,0 +1,173 @@
+import os from "os";
+import { v4 as uuidv4 } from "uuid";
+import { JobLock, JobRun } from "./model";
+
+type JobRunDocument = InstanceType<typeof JobRun>;
+
+// Either every N minutes, or once a day at HH:mm Thai time
+export type JobSchedule = { everyMinutes: number } | { dailyAt: string };
+
+export interface Job {
+  name: string;
+  description: string;
+  schedule: JobSchedule;
+  // Returns a summary that is stored with the run
+  run: (now: Date) => Promise<Record<string, unknown>>;
+}
+
+// Identifies this process in locks and run history
+export const INSTANCE_ID = [
+  os.hostname(),
+  process.pid,
+  uuidv4().slice(0, 8),
+].join(":");
+
+const TICK_MS = 60 * 1000;
+// A crashed instance's lock is taken over once it expires
+const LOCK_TTL_MS = 30 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const GMT_PLUS_7_MS = 7 * 60 * 60 * 1000;
+
+// The latest time the job was due to start, at or before `now`
+export function lastScheduledAt(schedule: JobSchedule, now: Date) {
+  if ("everyMinutes" in schedule) {
+    const every = schedule.everyMinutes * 60 * 1000;
+    return new Date(Math.floor(now.getTime() / every) * every);
+  }
+
+  const [hours, minutes] = schedule.dailyAt.split(":").map(Number);
+  const today = new Date(now.getTime() + GMT_PLUS_7_MS);
+  today.setUTCHours(hours, minutes, 0, 0);
+
+  let scheduledAt = today.getTime() - GMT_PLUS_7_MS;
+  if (scheduledAt > now.getTime()) {
+    scheduledAt -= DAY_MS;
+  }
+  return new Date(scheduledAt);
+}
+
+// Takes the job's lock unless another instance holds an unexpired one
+async function acquireLock(name: string, now: Date) {
+  try {
+    await JobLock.findOneAndUpdate(
+      { name, lockedUntil: { $lte: now } },
+      {
+        $set: {
+          lockedBy: INSTANCE_ID,
+          lockedUntil: new Date(now.getTime() + LOCK_TTL_MS),
+        },
+      },
+      { upsert: true }
+    );
+    return true;
+  } catch (error: any) {
+    // The upsert collides with the existing, still locked document
+    if (error?.code === 11000) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+async function releaseLock(name: string) {
+  await JobLock.updateOne(
+    { name, lockedBy: INSTANCE_ID },
+    { $set: { lockedUntil: new Date(0) } }
+  );
+}
+
+async function isDue(job: Job, now: Date) {
+  const lastRun = await JobRun.findOne({
+    name: job.name,
+    trigger: "schedule",
+  }).sort({ startedAt: -1 });
+
+  return !lastRun || lastRun.startedAt < lastScheduledAt(job.schedule, now);
+}
+
+async function execute(
+  job: Job,
+  trigger: "schedule" | "manual",
+  now: Date,
+  triggeredBy?: string
+) {
+  const run = await JobRun.create({
+    runId: uuidv4(),
+    name: job.name,
+    trigger,
+    triggeredBy,
+    instanceId: INSTANCE_ID,
+    startedAt: now,
+  });
+
+  try {
+    run.result = await job.run(now);
+    run.status = "succeeded";
+  } catch (error: any) {
+    console.error(`Error running job ${job.name}:`, error);
+    run.status = "failed";
+    run.error = String(error?.message ?? error);
+  }
+
+  run.finishedAt = new Date();
+  await run.save();
+  return run;
+}
+
+// Runs a job now, outside its schedule. Returns null when another instance
+// is running it.
+export async function runJobNow(
+  job: Job,
+  triggeredBy?: string
+): Promise<JobRunDocument | null> {
+  const now = new Date();
+  if (!(await acquireLock(job.name, now))) {
+    return null;
+  }
+
+  try {
+    return await execute(job, "manual", now, triggeredBy);
+  } finally {
+    await releaseLock(job.name);
+  }
+}
+
+// Runs every job whose scheduled time has passed since its last run. The
+// due check happens under the lock so two instances never both run it.
+export async function runDueJobs(jobs: Job[]) {
+  for (const job of jobs) {
+    const now = new Date();
+    try {
+      if (!(await acquireLock(job.name, now))) {
+        continue;
+      }
+      try {
+        if (await isDue(job, now)) {
+          await execute(job, "schedule", now);
+        }
+      } finally {
+        await releaseLock(job.name);
+      }
+    } catch (error) {
+      console.error(`Error scheduling job ${job.name}:`, error);
+    }
+  }
+}
+
+// Checks for due jobs every minute for the lifetime of the process
+export function startJobRunner(jobs: Job[]) {
+  let ticking = false;
+
+  const tick = async () => {
+    if (ticking) return;
+    ticking = true;
+    try {
+      await runDueJobs(jobs);
+    } finally {
+      ticking = false;
+    }
+  };
+
+  tick();
+  return setInterval(tick, TICK_MS);
+}
@@ -0,0 +1,40 @@
+import mongoose from "mongoose";
+
+export const NOTIFICATION_STATUSES = ["pending", "sending", "sent", "failed"];
+
+// Outbox of emails. Every email is stored before it is sent, so one that
+// fails is retried later instead of being lost.
+const notificationSchema = new mongoose.Schema(
+  {
+    notificationId: { type: String, required: true, unique: true },
+    // Set for emails that must go out at most once, e.g. "receipt:<session>"
+    dedupeKey: { type: String, unique: true, sparse: true },
+    userId: { type: String, index: true },
+    to: { type: String, required: true },
+    template: { type: String, required: true },
+    locale: { type: String, required: true },
+    subject: { type: String, required: true },
+    html: { type: String, required: true },
+    text: { type: String, required: true },
+    // Stored without its secret data, e.g. a password reset link, so it
+    // cannot be retried from the outbox
+    redacted: { type: Boolean, default: false, required: true },
+    status: {
+      type: String,
+      enum: NOTIFICATION_STATUSES,
+      default: "pending",
+      required: true,
+    },
+    attempts: { type: Number, default: 0, required: true },
+    nextAttemptAt: { type: Date, required: true },
+    lastError: { type: String },
+    provider: { type: String },
+    providerMessageId: { type: String },
+    sentAt: { type: Date },
+  },
+  { timestamps: true }
+);
+
+notificationSchema.index({ status: 1, nextAttemptAt: 1 });
+
+export const Notification = mongoose.model("notifications", notificationSchema);
@@ -0,0 +1,175 @@
+import { v4 as uuidv4 } from "uuid";
+import { Notification } from "./model";
+import { createEmailProvider, EmailMessage, EmailProvider } from "./providers";
+import {
+  DEFAULT_NOTIFICATION_LOCALE,
+  hasSecretData,
+  NOTIFICATION_LOCALES,
+  NotificationLocale,
+  redactTemplateData,
+  renderTemplate,
+  TemplateData,
+  TemplateName,
+} from "./templates";
+
+type NotificationDocument = InstanceType<typeof Notification>;
+
+// Wait before each retry; the email is marked failed after the last one
+const RETRY_DELAYS_MS = [1, 5, 30, 120, 720].map((minutes) => minutes * 60000);
+// A "sending" email older than this belongs to a process that died mid-send
+const SENDING_TIMEOUT_MS = 10 * 60 * 1000;
+const OUTBOX_BATCH_SIZE = 50;
+
+let provider: EmailProvider | undefined;
+
+function emailProvider() {
+  provider ??= createEmailProvider();
+  return provider;
+}
+
+export interface NotifyOptions<K extends TemplateName> {
+  to: string;
+  template: K;
+  data: TemplateData[K];
+  locale?: NotificationLocale;
+  userId?: string;
+  dedupeKey?: string;
+}
+
+// Sends the stored email, or the given message for a redacted one
+async function deliver(
+  notification: NotificationDocument,
+  message: EmailMessage = {
+    to: notification.to,
+    subject: notification.subject,
+    html: notification.html,
+    text: notification.text,
+  }
+) {
+  const now = new Date();
+  notification.attempts += 1;
+
+  try {
+    const sender = emailProvider();
+    notification.providerMessageId = await sender.send(message);
+    notification.provider = sender.name;
+    notification.status = "sent";
+    notification.sentAt = now;
+  } catch (error: any) {
+    console.error("Error sending email:", notification.notificationId, error);
+    notification.lastError = String(error?.message ?? error);
+
+    const delay = notification.redacted
+      ? undefined
+      : RETRY_DELAYS_MS[notification.attempts - 1];
+    if (delay === undefined) {
+      notification.status = "failed";
+    } else {
+      notification.status = "pending";
+      notification.nextAttemptAt = new Date(now.getTime() + delay);
+    }
+  }
+
+  await notification.save();
+}
+
+// Renders a template, stores it in the outbox and tries to send it right
+// away. Delivery errors are retried from the outbox rather than thrown.
+// Returns null when an email with the same dedupeKey was already queued.
+//
+// Templates carrying secret data are stored redacted, so they are sent once
+// and marked failed if that does not work; the user can ask for a new link.
+export async function notify<K extends TemplateName>(
+  options: NotifyOptions<K>
+): Promise<NotificationDocument | null> {
+  const locale = options.locale ?? DEFAULT_NOTIFICATION_LOCALE;
+  const rendered = renderTemplate(options.template, options.data, locale);
+  const redacted = hasSecretData(options.template);
+  const stored = redacted
+    ? renderTemplate(
+        options.template,
+        redactTemplateData(options.template, options.data),
+        locale
+      )
+    : rendered;
+
+  let notification;
+  try {
+    // Created as "sending" so the outbox job leaves it alone meanwhile
+    notification = await Notification.create({
+      notificationId: uuidv4(),
+      dedupeKey: options.dedupeKey,
+      userId: options.userId,
+      to: options.to,
+      template: options.template,
+      locale,
+      ...stored,
+      redacted,
+      status: "sending",
+      nextAttemptAt: new Date(),
+    });
+  } catch (error: any) {
+    if (error?.code === 11000 && error.keyPattern?.dedupeKey) {
+      return null;
+    }
+    throw error;
+  }
+
+  await deliver(notification, { to: options.to, ...rendered });
+  return notification;
+}
+
+// Sends to a user in their preferred language
+export function notifyUser<K extends TemplateName>(
+  user: { userId: string; email: string; locale?: string | null },
+  template: K,
+  data: TemplateData[K],
+  options: { dedupeKey?: string } = {}
+) {
+  const locale = NOTIFICATION_LOCALES.includes(
+    user.locale as NotificationLocale
+  )
+    ? (user.locale as NotificationLocale)
+    : undefined;
+
+  return notify({
+    to: user.email,
+    userId: user.userId,
+    template,
+    data,
+    locale,
+    ...options,
+  });
+}
+
+// Retries emails whose next attempt is due. Each one is claimed with a
+// conditional update so concurrent runs never send it twice. Redacted emails
+// are never retried.
+export async function processOutbox(now: Date = new Date()) {
+  const result = { sent: 0, retrying: 0, failed: 0 };
+
+  for (let i = 0; i < OUTBOX_BATCH_SIZE; i++) {
+    const notification = await Notification.findOneAndUpdate(
+      {
+        redacted: { $ne: true },
+        $or: [
+          { status: "pending", nextAttemptAt: { $lte: now } },
+          {
+            status: "sending",
+            updatedAt: { $lte: new Date(now.getTime() - SENDING_TIMEOUT_MS) },
+          },
+        ],
+      },
+      { $set: { status: "sending" } },
+      { new: true, sort: { nextAttemptAt: 1 } }
+    );
+    if (!notification) break;
+
+    await deliver(notification);
+    if (notification.status === "sent") result.sent += 1;
+    else if (notification.status === "failed") result.failed += 1;
+    else result.retrying += 1;
+  }
+
+  return result;
+}
@@ -0,0 +1,100 @@
+import fs from "fs/promises";
+import path from "path";
+import nodemailer from "nodemailer";
+import { Resend } from "resend";
+import dotenv from "dotenv";
+
+dotenv.config();
+
+export const MAIL_FROM = process.env.MAIL_FROM || "noreply@example.com";
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface EmailProvider {
+  name: string;
+  // Resolves with the provider's message ID; rejects if the email was not accepted
+  send(message: EmailMessage): Promise<string | undefined>;
+}
+
+// Any SMTP server. Falls back to the Mailtrap settings used before
+// SMTP_* existed.
+function smtpProvider(): EmailProvider {
+  const transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST || process.env.MAILTRAP_HOST,
+    port: Number(process.env.SMTP_PORT || process.env.MAILTRAP_PORT),
+    auth: {
+      user: process.env.SMTP_USER || process.env.MAILTRAP_USER,
+      pass: process.env.SMTP_PASS || process.env.MAILTRAP_PASS,
+    },
+  });
+
+  return {
+    name: "smtp",
+    async send(message) {
+      const info = await transporter.sendMail({ from: MAIL_FROM, ...message });
+      return info.messageId;
+    },
+  };
+}
+
+function resendProvider(): EmailProvider {
+  const resend = new Resend(process.env.RESEND_API_KEY);
+
+  return {
+    name: "resend",
+    async send(message) {
+      const { data, error } = await resend.emails.send({
+        from: MAIL_FROM,
+        ...message,
+      });
+      if (error) {
+        throw new Error(`${error.name}: ${error.message}`);
+      }
+      return data?.id;
+    },
+  };
+}
+
+// For development and tests: writes each email's HTML to MAIL_STUB_DIR so it
+// can be opened in a browser. Only the recipient and subject are logged, as
+// bodies may hold links that sign the user in.
+function stubProvider(): EmailProvider {
+  const directory = process.env.MAIL_STUB_DIR || "tmp/mail";
+
+  return {
+    name: "stub",
+    async send(message) {
+      const id = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+      await fs.mkdir(directory, { recursive: true });
+      const file = path.join(directory, `${id}.html`);
+      await fs.writeFile(file, message.html);
+      console.log(
+        `[mail] to=${message.to} subject=${JSON.stringify(message.subject)} ` +
+          `file=${file}`
+      );
+      return id;
+    },
+  };
+}
+
+const PROVIDERS: Record<string, () => EmailProvider> = {
+  smtp: smtpProvider,
+  resend: resendProvider,
+  stub: stubProvider,
+};
+
+// Picked with MAIL_PROVIDER (smtp, resend or stub); defaults to smtp
+export function createEmailProvider(
+  name: string = process.env.MAIL_PROVIDER || "smtp"
+) {
+  const factory = PROVIDERS[name];
+  if (!factory) {
+    throw new Error(`Unknown MAIL_PROVIDER: ${name}`);
+  }
+  return factory();
+}
@@ -0,0 +1,408 @@
+export const NOTIFICATION_LOCALES = ["th", "en"] as const;
+export type NotificationLocale = (typeof NOTIFICATION_LOCALES)[number];
+
+export const DEFAULT_NOTIFICATION_LOCALE: NotificationLocale =
+  process.env.NOTIFICATION_LOCALE === "en" ? "en" : "th";
+
+// Data each template needs. Dates may arrive as strings once stored in the
+// outbox.
+export interface TemplateData {
+  "password-reset": {
+    name: string;
+    resetUrl: string;
+    expiresInMinutes: number;
+  };
+  "email-verification": {
+    name: string;
+    verifyUrl: string;
+    expiresInHours: number;
+  };
+  "registration-confirmation": {
+    name: string;
+    courseName: string;
+    courseDate: Date | string;
+    location: string;
+  };
+  "attendance-approved": {
+    name: string;
+    courseName: string;
+    certificateSerial: string;
+    statusEndDate?: Date | string;
+  };
+  "attendance-rejected": { name: string; courseName: string };
+  "payment-receipt": {
+    name: string;
+    courseName: string;
+    orderId: string;
+    amount: number;
+    currency: string;
+    paidAt: Date | string;
+  };
+  "course-reminder": {
+    name: string;
+    courseName: string;
+    courseDate: Date | string;
+    location: string;
+  };
+  "course-cancelled": {
+    name: string;
+    courseName: string;
+    courseDate: Date | string;
+    reason?: string;
+  };
+  "seat-offered": {
+    name: string;
+    courseName: string;
+    holdExpiresAt: Date | string;
+    claimUrl: string;
+  };
+  "renewal-reminder": {
+    name: string;
+    daysBefore: number;
+    statusEndDate: Date | string;
+    renewUrl: string;
+  };
+}
+
+export type TemplateName = keyof TemplateData;
+
+// Data that grants access to the account, such as one-time links. It is
+// emailed but never stored in the outbox.
+const SECRET_FIELDS: { [K in TemplateName]?: (keyof TemplateData[K])[] } = {
+  "password-reset": ["resetUrl"],
+  "email-verification": ["verifyUrl"],
+};
+
+export function hasSecretData(template: TemplateName) {
+  return !!SECRET_FIELDS[template];
+}
+
+// The data with its secret fields replaced, for the stored copy of an email
+export function redactTemplateData<K extends TemplateName>(
+  template: K,
+  data: TemplateData[K]
+): TemplateData[K] {
+  const redacted = { ...data };
+  for (const field of SECRET_FIELDS[template] ?? []) {
+    (redacted as Record<keyof TemplateData[K], unknown>)[field] = "[redacted]";
+  }
+  return redacted;
+}
+
+interface Content {
+  subject: string;
+  greeting: string;
+  paragraphs: string[];
+  action?: { label: string; url: string };
+}
+
+const LOCALE_TAGS: Record<NotificationLocale, string> = {
+  th: "th-TH",
+  en: "en-GB",
+};
+
+// Course dates are stored as Thai local time, so they are formatted as UTC
+function courseDate(date: Date | string, locale: NotificationLocale) {
+  return new Date(date).toLocaleString(LOCALE_TAGS[locale], {
+    dateStyle: "long",
+    timeStyle: "short",
+    timeZone: "UTC",
+  });
+}
+
+// Real instants, such as payment times, shown in Thai time
+function dateTime(date: Date | string, locale: NotificationLocale) {
+  return new Date(date).toLocaleString(LOCALE_TAGS[locale], {
+    dateStyle: "long",
+    timeStyle: "short",
+    timeZone: "Asia/Bangkok",
+  });
+}
+
+function money(amount: number, currency: string, locale: NotificationLocale) {
+  return new Intl.NumberFormat(LOCALE_TAGS[locale], {
+    style: "currency",
+    currency: currency.toUpperCase(),
+  }).format(amount);
+}
+
+const TEMPLATES: {
+  [K in TemplateName]: Record<
+    NotificationLocale,
+    (data: TemplateData[K]) => Content
+  >;
+} = {
+  "password-reset": {
+    th: (data) => ({
+      subject: "คำขอรีเซ็ตรหัสผ่าน",
+      greeting: `เรียน คุณ${data.name}`,
+      paragraphs: [
+        "เราได้รับคำขอรีเซ็ตรหัสผ่านสำหรับบัญชีของคุณ",
+        `ลิงก์นี้ใช้ได้ภายใน ${data.expiresInMinutes} นาที หากคุณไม่ได้ส่งคำขอนี้ โปรดเพิกเฉยต่ออีเมลฉบับนี้`,
+      ],
+      action: { label: "ตั้งรหัสผ่านใหม่", url: data.resetUrl },
+    }),
+    en: (data) => ({
+      subject: "Password reset request",
+      greeting: `Dear ${data.name},`,
+      paragraphs: [
+        "We received a request to reset the password of your account.",
+        `The link is valid for ${data.expiresInMinutes} minutes. If you did not ask for this, you can ignore this email.`,
+      ],
+      action: { label: "Choose a new password", url: data.resetUrl },
+    }),
+  },
+  "email-verification": {
+    th: (data) => ({
+      subject: "ยืนยันอีเมลของคุณ",
+      greeting: `เรียน คุณ${data.name}`,
+      paragraphs: [
+        "โปรดยืนยันอีเมลของคุณเพื่อเริ่มลงทะเบียนหลักสูตร",
+        `ลิงก์นี้ใช้ได้ภายใน ${data.expiresInHours} ชั่วโมง หากคุณไม่ได้สมัครสมาชิก โปรดเพิกเฉยต่ออีเมลฉบับนี้`,
+      ],
+      action: { label: "ยืนยันอีเมล", url: data.verifyUrl },
+    }),
+    en: (data) => ({
+      subject: "Verify your email address",
+      greeting: `Dear ${data.name},`,
+      paragraphs: [
+        "Please verify your email address before registering for courses.",
+        `The link is valid for ${data.expiresInHours} hours. If you did not sign up, you can ignore this email.`,
+      ],
+      action: { label: "Verify email", url: data.verifyUrl },
+    }),
+  },
+  "registration-confirmation": {
+    th: (data) => ({
+      subject: `ยืนยันการลงทะเบียน: ${data.courseName}`,
+      greeting: `เรียน คุณ${data.name}`,
+      paragraphs: [
+        `คุณได้ลงทะเบียนหลักสูตร "${data.courseName}" เรียบร้อยแล้ว`,
+        `วันที่: ${courseDate(data.courseDate, "th")}`,
+        `สถานที่: ${data.location}`,
+      ],
+    }),
+    en: (data) => ({
+      subject: `Registration confirmed: ${data.courseName}`,
+      greeting: `Dear ${data.name},`,
+      paragraphs: [
+        `You are registered for "${data.courseName}".`,
+        `Date: ${courseDate(data.courseDate, "en")}`,
+        `Location: ${data.location}`,
+      ],
+    }),
+  },
+  "attendance-approved": {
+    th: (data) => ({
+      subject: `ผ่านการอบรม: ${data.courseName}`,
+      greeting: `เรียน คุณ${data.name}`,
+      paragraphs: [
+        `การเข้าอบรมหลักสูตร "${data.courseName}" ของคุณได้รับการอนุมัติแล้ว`,
+        `เลขที่ประกาศนียบัตร: ${data.certificateSerial}`,
+        ...(data.statusEndDate
+          ? [`สถานะของคุณมีผลถึง ${dateTime(data.statusEndDate, "th")}`]
+          : []),
+      ],
+    }),
+    en: (data) => ({
+      subject: `Course completed: ${data.courseName}`,
+      greeting: `Dear ${data.name},`,
+      paragraphs: [
+        `Your attendance of "${data.courseName}" has been approved.`,
+        `Certificate serial: ${data.certificateSerial}`,
+        ...(data.statusEndDate
+          ? [
+              `Your status is valid until ${dateTime(
+                data.statusEndDate,
+                "en"
+              )}.`,
+            ]
+          : []),
+      ],
+    }),
+  },
+  "attendance-rejected": {
+    th: (data) => ({
+      subject: `ผลการเข้าอบรม: ${data.courseName}`,
+      greeting: `เรียน คุณ${data.name}`,
+      paragraphs: [
+        `การเข้าอบรมหลักสูตร "${data.courseName}" ของคุณไม่ได้รับการอนุมัติ`,
+        "หากมีข้อสงสัย โปรดติดต่อผู้ดูแลหลักสูตร",
+      ],
+    }),
+    en: (data) => ({
+      subject: `Attendance not approved: ${data.courseName}`,
+      greeting: `Dear ${data.name},`,
+      paragraphs: [
+        `Your attendance of "${data.courseName}" was not approved.`,
+        "Please contact the course administrator if you have any questions.",
+      ],
+    }),
+  },
+  "payment-receipt": {
+    th: (data) => ({
+      subject: `ใบเสร็จรับเงิน: ${data.courseName}`,
+      greeting: `เรียน คุณ${data.name}`,
+      paragraphs: [
+        `ได้รับชำระเงินค่าหลักสูตร "${data.courseName}" เรียบร้อยแล้ว`,
+        `จำนวนเงิน: ${money(data.amount, data.currency, "th")}`,
+        `เลขที่คำสั่งซื้อ: ${data.orderId}`,
+        `วันที่ชำระ: ${dateTime(data.paidAt, "th")}`,
+      ],
+    }),
+    en: (data) => ({
+      subject: `Payment receipt: ${data.courseName}`,
+      greeting: `Dear ${data.name},`,
+      paragraphs: [
+        `We received your payment for "${data.courseName}".`,
+        `Amount: ${money(data.amount, data.currency, "en")}`,
+        `Order: ${data.orderId}`,
+        `Paid on: ${dateTime(data.paidAt, "en")}`,
+      ],
+    }),
+  },
+  "course-reminder": {
+    th: (data) => ({
+      subject: `แจ้งเตือน: ${data.courseName} ใกล้เริ่มแล้ว`,
+      greeting: `เรียน คุณ${data.name}`,
+      paragraphs: [
+        `หลักสูตร "${data.courseName}" จะเริ่มในวันที่ ${courseDate(
+          data.courseDate,
+          "th"
+        )}`,
+        `สถานที่: ${data.location}`,
+      ],
+    }),
+    en: (data) => ({
+      subject: `Reminder: ${data.courseName} starts soon`,
+      greeting: `Dear ${data.name},`,
+      paragraphs: [
+        `"${data.courseName}" starts on ${courseDate(data.courseDate, "en")}.`,
+        `Location: ${data.location}`,
+      ],
+    }),
+  },
+  "course-cancelled": {
+    th: (data) => ({
+      subject: `ยกเลิกหลักสูตร: ${data.courseName}`,
+      greeting: `เรียน คุณ${data.name}`,
+      paragraphs: [
+        `หลักสูตร "${data.courseName}" วันที่ ${courseDate(
+          data.courseDate,
+          "th"
+        )} ถูกยกเลิก`,
+        ...(data.reason ? [`เหตุผล: ${data.reason}`] : []),
+        "หากคุณได้ชำระเงินแล้ว เราจะคืนเงินให้คุณ",
+      ],
+    }),
+    en: (data) => ({
+      subject: `Course cancelled: ${data.courseName}`,
+      greeting: `Dear ${data.name},`,
+      paragraphs: [
+        `"${data.courseName}" scheduled for ${courseDate(
+          data.courseDate,
+          "en"
+        )} has been cancelled.`,
+        ...(data.reason ? [`Reason: ${data.reason}`] : []),
+        "Any payment you made for this course will be refunded.",
+      ],
+    }),
+  },
+  "seat-offered": {
+    th: (data) => ({
+      subject: `มีที่นั่งว่าง: ${data.courseName}`,
+      greeting: `เรียน คุณ${data.name}`,
+      paragraphs: [
+        `มีที่นั่งว่างในหลักสูตร "${
+          data.courseName
+        }" ซึ่งเราสำรองไว้ให้คุณถึง ${dateTime(data.holdExpiresAt, "th")}`,
+        "หลังจากนั้นที่นั่งจะถูกเสนอให้ผู้ที่อยู่ในรายชื่อรอลำดับถัดไป",
+      ],
+      action: { label: "ลงทะเบียนและชำระเงิน", url: data.claimUrl },
+    }),
+    en: (data) => ({
+      subject: `A seat is available: ${data.courseName}`,
+      greeting: `Dear ${data.name},`,
+      paragraphs: [
+        `A seat has opened up in "${
+          data.courseName
+        }" and is held for you until ${dateTime(data.holdExpiresAt, "en")}.`,
+        "After that the seat will be offered to the next person on the waitlist.",
+      ],
+      action: { label: "Register and pay", url: data.claimUrl },
+    }),
+  },
+  "renewal-reminder": {
+    th: (data) => ({
+      subject: `สถานะของคุณจะหมดอายุใน ${data.daysBefore} วัน`,
+      greeting: `เรียน คุณ${data.name}`,
+      paragraphs: [
+        `สถานะของคุณมีผลถึง ${dateTime(data.statusEndDate, "th")}`,
+        "เข้าอบรมหลักสูตรก่อนวันดังกล่าวเพื่อต่ออายุสถานะ",
+      ],
+      action: { label: "ดูหลักสูตร", url: data.renewUrl },
+    }),
+    en: (data) => ({
+      subject: `Your status expires in ${data.daysBefore} days`,
+      greeting: `Dear ${data.name},`,
+      paragraphs: [
+        `Your status is valid until ${dateTime(data.statusEndDate, "en")}.`,
+        "Complete a course before then to renew it.",
+      ],
+      action: { label: "Browse courses", url: data.renewUrl },
+    }),
+  },
+};
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function toHtml(content: Content, locale: NotificationLocale) {
+  const paragraphs = [content.greeting, ...content.paragraphs]
+    .map((paragraph) => `<p>${escapeHtml(paragraph)}</p>`)
+    .join("\n");
+  const action = content.action
+    ? `<p><a href="${escapeHtml(content.action.url)}" ` +
+      `style="display:inline-block;padding:10px 18px;background:#1f3a5f;color:#fff;text-decoration:none;border-radius:4px">` +
+      `${escapeHtml(content.action.label)}</a></p>`
+    : "";
+
+  return `<!DOCTYPE html>
+<html lang="${locale}">
+<head><meta charset="utf-8"><title>${escapeHtml(content.subject)}</title></head>
+<body style="font-family:Sarabun,Tahoma,Arial,sans-serif;font-size:15px;color:#222;line-height:1.6">
+${paragraphs}
+${action}
+</body>
+</html>`;
+}
+
+function toText(content: Content) {
+  return [
+    content.greeting,
+    "",
+    ...content.paragraphs,
+    ...(content.action
+      ? ["", `${content.action.label}: ${content.action.url}`]
+      : []),
+  ].join("\n");
+}
+
+export function renderTemplate<K extends TemplateName>(
+  template: K,
+  data: TemplateData[K],
+  locale: NotificationLocale
+) {
+  const content = TEMPLATES[template][locale](data);
+  return {
+    subject: content.subject,
+    html: toHtml(content, locale),
+    text: toText(content),
+  };
+}
@@ -0,0 +1,33 @@
+import mongoose from "mongoose";
+
+export const ORDER_STATUSES = [
+  "pending",
+  "paid",
+  "refunded",
+  "cancelled", // registration cancelled, refunded in part or not at all
+  "failed",
+] as const;
+
+const orderSchema = new mongoose.Schema(
+  {
+    orderId: { type: String, required: true, unique: true },
+    userId: { type: String, required: true, index: true },
+    courseId: { type: String, required: true, index: true },
+    stripeSessionId: { type: String, required: true, unique: true },
+    stripePaymentIntentId: { type: String },
+    amount: { type: Number, required: true }, // in THB
+    amountRefunded: { type: Number, default: 0, required: true }, // in THB
+    currency: { type: String, default: "thb", required: true },
+    status: {
+      type: String,
+      enum: ORDER_STATUSES,
+      default: "pending",
+      required: true,
+    },
+    paidAt: { type: Date },
+    refundedAt: { type: Date },
+  },
+  { timestamps: true }
+);
+
+export const Order = mongoose.model("orders", orderSchema);
@@ -0,0 +1,48 @@
+import { Order } from "./model";
+
+const stripe = require("stripe")(process.env.STRIPE_API_KEY);
+
+type OrderDocument = InstanceType<typeof Order>;
+
+// Refunds a paid order through Stripe, in full unless an amount in THB is
+// given. The key makes retries of the same refund safe.
+export async function refundOrder(
+  order: OrderDocument,
+  idempotencyKey: string,
+  amount: number = order.amount - order.amountRefunded
+) {
+  if (!order.stripePaymentIntentId) {
+    throw new Error(`Order ${order.orderId} has no payment to refund`);
+  }
+
+  const refund = await stripe.refunds.create(
+    {
+      payment_intent: order.stripePaymentIntentId,
+      amount: Math.round(amount * 100), // Convert to satangs
+      metadata: { orderId: order.orderId },
+    },
+    { idempotencyKey }
+  );
+
+  order.amountRefunded += refund.amount / 100;
+  if (order.amountRefunded >= order.amount) {
+    order.status = "refunded";
+  }
+  order.refundedAt = new Date();
+  await order.save();
+
+  return refund;
+}
+
+// Closes the Checkout Session of an order that is still awaiting payment, so
+// it can no longer be paid. A session that was paid meanwhile cannot be
+// expired; its webhook event settles it instead.
+export async function expireOrderCheckout(order: OrderDocument) {
+  await stripe.checkout.sessions.expire(order.stripeSessionId);
+
+  // Stripe also sends checkout.session.expired, which does the same
+  await Order.updateOne(
+    { _id: order._id, status: "pending" },
+    { $set: { status: "failed" } }
+  );
+}
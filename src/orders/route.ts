@@ -0,0 +1,198 @@
+import express, { Request, Response } from "express";
+import { Order, ORDER_STATUSES } from "./model";
+import { requirePermission, verifyJWT } from "../../middleware/middleware";
+import {
+  date,
+  oneOf,
+  optional,
+  PAGINATION_QUERY,
+  string,
+  validated,
+} from "../../middleware/validate";
+
+export const order = express.Router();
+
+/**
+ * @swagger
+ * /api/v1/orders:
+ *   get:
+ *     summary: Retrieve the orders of the logged-in user
+ *     description: Requires the `order:read` permission.
+ *     tags: [Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Orders retrieved successfully.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: Success-04-0001
+ *                 status:
+ *                   type: string
+ *                   example: Success
+ *                 message:
+ *                   type: string
+ *                   example: Orders retrieved successfully
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *       403:
+ *         description: Missing the required permission.
+ *       500:
+ *         description: Internal server error.
+ */
+
+order.get(
+  "/orders",
+  verifyJWT,
+  requirePermission("order:read"),
+  async (req: Request, res: Response) => {
+    try {
+      const orders = await Order.find({ userId: req.user.userId }).sort({
+        createdAt: -1,
+      });
+
+      res.status(200).json({
+        code: "Success-04-0001",
+        status: "Success",
+        message: "Orders retrieved successfully",
+        data: orders,
+      });
+    } catch (error) {
+      console.error("Error fetching orders:", error);
+      res.status(500).json({
+        code: "Error-03-0001",
+        status: "Error",
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/admin/orders:
+ *   get:
+ *     summary: Retrieve all orders (admin only)
+ *     description: Requires the `order:read:all` permission.
+ *     tags: [Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, paid, refunded, cancelled, failed]
+ *       - in: query
+ *         name: userId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: courseId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: from
+ *         description: Only orders created on or after this date.
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         description: Only orders created on or before this date.
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Orders retrieved successfully, with the total count.
+ *       400:
+ *         $ref: '#/components/responses/InvalidRequest'
+ *       403:
+ *         description: Missing the required permission.
+ *       500:
+ *         description: Internal server error.
+ */
+
+order.get(
+  "/admin/orders",
+  verifyJWT,
+  requirePermission("order:read:all"),
+  validated(
+    {
+      query: {
+        status: optional(oneOf(ORDER_STATUSES)),
+        userId: optional(string()),
+        courseId: optional(string()),
+        from: optional(date()),
+        to: optional(date()),
+        ...PAGINATION_QUERY,
+      },
+    },
+    async (req, res) => {
+      const {
+        status,
+        userId,
+        courseId,
+        from,
+        to,
+        page = 1,
+        limit = 20,
+      } = req.query;
+
+      const filter: Record<string, any> = {};
+
+      if (status) filter.status = status;
+      if (userId) filter.userId = userId;
+      if (courseId) filter.courseId = courseId;
+      if (from || to) {
+        filter.createdAt = {
+          ...(from && { $gte: from }),
+          ...(to && { $lte: to }),
+        };
+      }
+
+      try {
+        const [orders, total] = await Promise.all([
+          Order.find(filter)
+            .sort({ createdAt: -1 })
+            .skip((page - 1) * limit)
+            .limit(limit),
+          Order.countDocuments(filter),
+        ]);
+
+        res.status(200).json({
+          code: "Success-04-0002",
+          status: "Success",
+          message: "Orders retrieved successfully",
+          data: orders,
+          pagination: { page, limit, total },
+        });
+      } catch (error) {
+        console.error("Error fetching orders:", error);
+        res.status(500).json({
+          code: "Error-03-0001",
+          status: "Error",
+          message: "Internal server error",
+        });
+      }
+    }
+  )
+);
@@ -0,0 +1,204 @@
+import { v4 as uuidv4 } from "uuid";
+import {
+  emailFilter,
+  idcardFilter,
+  phoneFilter,
+  User,
+  UserAudit,
+} from "./model";
+import { maskIdcard } from "./serialize";
+import { ROLES } from "../../middleware/middleware";
+import {
+  date,
+  nullable,
+  oneOf,
+  optional,
+  string,
+} from "../../middleware/validate";
+import { NOTIFICATION_LOCALES } from "../notifications/templates";
+import { normalizeIdentityFields } from "./validation";
+
+type UserDocument = InstanceType<typeof User>;
+
+// What users may change on their own profile. Email and ID card changes go
+// through an admin, since both identify the person.
+export const SELF_EDITABLE_FIELDS = [
+  "name",
+  "phonenumber",
+  "company",
+  "locale",
+] as const;
+
+// What an admin may change on someone else's record. Passwords, training
+// history and 2FA settings have their own flows.
+export const ADMIN_EDITABLE_FIELDS = [
+  ...SELF_EDITABLE_FIELDS,
+  "email",
+  "idcard",
+  "role",
+  "status",
+  "statusStartDate",
+  "statusEndDate",
+] as const;
+
+export const USER_STATUSES = ["Active", "Expired"] as const;
+
+// Request bodies of the two edit routes, matching the lists above; values are
+// checked again by pickEditableFields
+export const SELF_EDIT_BODY = {
+  name: optional(string()),
+  phonenumber: optional(string()),
+  company: optional(string()),
+  locale: optional(oneOf(NOTIFICATION_LOCALES)),
+};
+
+export const ADMIN_EDIT_BODY = {
+  ...SELF_EDIT_BODY,
+  email: optional(string()),
+  idcard: optional(string()),
+  role: optional(oneOf(ROLES)),
+  status: optional(oneOf(USER_STATUSES)),
+  statusStartDate: optional(nullable(date())),
+  statusEndDate: optional(nullable(date())),
+};
+
+const DATE_FIELDS = ["statusStartDate", "statusEndDate"];
+const UNIQUE_FIELDS = ["email", "phonenumber", "idcard"];
+
+export interface FieldUpdate {
+  updates: Record<string, any>;
+  error?: string;
+  code?: string;
+}
+
+const INVALID_FIELDS_CODE = "Error-02-0008";
+
+// Copies the allowed fields from the request body, rejecting anything else
+// rather than silently dropping it. Email, phone number and ID card number
+// come back normalized.
+export function pickEditableFields(
+  body: Record<string, any>,
+  allowed: readonly string[],
+  ignored: readonly string[] = []
+): FieldUpdate {
+  const updates: Record<string, any> = {};
+  const rejected: string[] = [];
+
+  for (const [field, value] of Object.entries(body ?? {})) {
+    if (ignored.includes(field)) continue;
+    if (!allowed.includes(field)) {
+      rejected.push(field);
+      continue;
+    }
+    updates[field] = value;
+  }
+
+  if (rejected.length) {
+    return {
+      updates,
+      error: `Cannot update: ${rejected.join(", ")}`,
+      code: INVALID_FIELDS_CODE,
+    };
+  }
+
+  const error = validateFields(updates);
+  if (error) {
+    return { updates, error, code: INVALID_FIELDS_CODE };
+  }
+
+  const { values, error: identityError } = normalizeIdentityFields(updates);
+  if (identityError) {
+    return {
+      updates,
+      error: identityError.message,
+      code: identityError.code,
+    };
+  }
+  return { updates: values };
+}
+
+function validateFields(updates: Record<string, any>) {
+  for (const [field, value] of Object.entries(updates)) {
+    if (DATE_FIELDS.includes(field)) {
+      if (value !== null && isNaN(new Date(value).getTime())) {
+        return `${field} must be a date`;
+      }
+      continue;
+    }
+    if (typeof value !== "string" || !value.trim()) {
+      return `${field} must be a non-empty string`;
+    }
+  }
+
+  if ("role" in updates && !ROLES.includes(updates.role)) {
+    return `role must be one of ${ROLES.join(", ")}`;
+  }
+  if ("status" in updates && !USER_STATUSES.includes(updates.status)) {
+    return `status must be one of ${USER_STATUSES.join(", ")}`;
+  }
+  if ("locale" in updates && !NOTIFICATION_LOCALES.includes(updates.locale)) {
+    return `locale must be one of ${NOTIFICATION_LOCALES.join(", ")}`;
+  }
+  return undefined;
+}
+
+// The first unique field another user already has, if any
+export async function findConflictingField(
+  userId: string,
+  updates: Record<string, any>
+) {
+  for (const field of UNIQUE_FIELDS) {
+    if (!(field in updates)) continue;
+    const filter =
+      field === "idcard"
+        ? idcardFilter(updates.idcard)
+        : field === "phonenumber"
+        ? phoneFilter(updates.phonenumber)
+        : emailFilter(updates.email);
+    if (await User.exists({ userId: { $ne: userId }, ...filter })) {
+      return field;
+    }
+  }
+  return null;
+}
+
+function auditValue(field: string, value: any) {
+  return field === "idcard" ? maskIdcard(value) : value;
+}
+
+// The fields whose value actually changes, as stored in the audit log
+export function diffUser(user: UserDocument, updates: Record<string, any>) {
+  return Object.entries(updates)
+    .filter(([field, value]) => {
+      const current = user.get(field);
+      if (DATE_FIELDS.includes(field)) {
+        return (
+          (current ? new Date(current).getTime() : null) !==
+          (value ? new Date(value).getTime() : null)
+        );
+      }
+      return current !== value;
+    })
+    .map(([field, value]) => ({
+      field,
+      from: auditValue(field, user.get(field)),
+      to: auditValue(field, value),
+    }));
+}
+
+export function recordUserAudit(
+  userId: string,
+  actorId: string,
+  action: string,
+  changes: { field: string; from: any; to: any }[],
+  reason?: string
+) {
+  return UserAudit.create({
+    auditId: uuidv4(),
+    userId,
+    actorId,
+    action,
+    changes,
+    reason,
+  });
+}
@@ -1,34 +1,120 @@
 import mongoose from "mongoose";
+import {
+  currentKeyId,
+  decryptPii,
+  encryptionKeyId,
+  encryptPii,
+  idcardIndex,
+} from "./pii";
 
-const userSchema = new mongoose.Schema({
-  userId: { type: String, required: true, unique: true },
-  name: { type: String, required: true },
-  email: { type: String, required: true, unique: true },
-  role: { type: String, required: true },
-  phonenumber: { type: String, required: true },
-  idcard: { type: String, required: true, unique: true },
-  company: { type: String, required: true },
-  password: { type: String, required: true },
-  avatar: { type: String },
-  trainingInfo: [
-    {
-      courseId: String,
-      courseName: String,
-      description: String,
-      location: String,
-      courseImage: String,
-      courseDate: Date,
-      hours: Number,
+const userSchema = new mongoose.Schema(
+  {
+    userId: { type: String, required: true, unique: true },
+    name: { type: String, required: true },
+    email: { type: String, required: true, unique: true },
+    role: { type: String, required: true },
+    phonenumber: { type: String, required: true },
+    // Encrypted at rest (see pii.ts); reads return the plaintext. Look users
+    // up and check uniqueness through idcardHash instead.
+    idcard: { type: String, required: true, get: decryptPii },
+    idcardHash: { type: String, unique: true, sparse: true },
+    company: { type: String, required: true },
+    password: { type: String, required: true },
+    avatar: { type: String },
+    // Unset for accounts created before email verification was introduced
+    emailVerifiedAt: { type: Date },
+    // Secrets are left out of queries unless selected explicitly
+    twoFactor: {
+      enabled: { type: Boolean, default: false },
+      enabledAt: { type: Date },
+      secret: { type: String, select: false },
+      // Set up but not yet confirmed with a code
+      pendingSecret: { type: String, select: false },
+      backupCodeHashes: { type: [String], select: false },
+    },
+    // Language of the emails sent to the user
+    locale: { type: String, enum: ["th", "en"] },
+    trainingInfo: [
+      {
+        courseId: String,
+        courseName: String,
+        description: String,
+        location: String,
+        courseImage: String,
+        courseDate: Date,
+        hours: Number,
+      },
+    ],
+    statusStartDate: { type: Date },
+    statusEndDate: { type: Date },
+    // No longer written; the remaining time is formatted per request from
+    // statusEndDate (see validity.ts)
+    statusExpiration: { type: String },
+    statusDuration: { type: String },
+    status: {
+      type: String,
+      required: true,
     },
-  ],
-  statusStartDate: { type: Date },
-  statusEndDate: { type: Date },
-  statusExpiration: { type: String },
-  statusDuration: { type: String },
-  status: {
-    type: String,
-    required: true,
   },
+  // Plain objects carry the decrypted values too
+  {
+    toObject: { getters: true, virtuals: false },
+    toJSON: { getters: true, virtuals: false },
+  }
+);
+
+// Encrypts a new or changed ID card number and keeps its blind index in step
+userSchema.pre("save", function () {
+  const stored = this.get("idcard", null, { getters: false });
+  if (!stored) return;
+  if (encryptionKeyId(stored) === currentKeyId() && this.idcardHash) return;
+
+  const idcard = decryptPii(stored);
+  this.set("idcard", encryptPii(idcard));
+  this.idcardHash = idcardIndex(idcard);
 });
 
+// Matches users by ID card number, including records written before the
+// encryption migration ran
+export function idcardFilter(idcard: string) {
+  return { $or: [{ idcardHash: idcardIndex(idcard) }, { idcard }] };
+}
+
+// Matches users by email as typed or lowercased. New emails are stored
+// lowercased (see validation.ts); older accounts may still have capitals.
+export function emailFilter(email: string) {
+  const normalized = email.trim().toLowerCase();
+  return { email: { $in: Array.from(new Set([email, normalized])) } };
+}
+
+// Matches users by phone number in E.164, as stored since validation.ts, or
+// in the local form ("0812345678") older accounts may still have until
+// scripts/normalize-phone-numbers.ts has run
+export function phoneFilter(phonenumber: string) {
+  const local = phonenumber.replace(/^\+66/, "0");
+  return { phonenumber: { $in: Array.from(new Set([phonenumber, local])) } };
+}
+
 export const User = mongoose.model("users", userSchema);
+
+// Changes made to a user's record by someone else, such as an admin edit
+const userAuditSchema = new mongoose.Schema(
+  {
+    auditId: { type: String, required: true, unique: true },
+    userId: { type: String, required: true, index: true },
+    actorId: { type: String, required: true },
+    action: { type: String, required: true },
+    changes: [
+      {
+        _id: false,
+        field: { type: String, required: true },
+        from: { type: mongoose.Schema.Types.Mixed },
+        to: { type: mongoose.Schema.Types.Mixed },
+      },
+    ],
+    reason: { type: String },
+  },
+  { timestamps: { createdAt: true, updatedAt: false } }
+);
+
+export const UserAudit = mongoose.model("userAudits", userAuditSchema);
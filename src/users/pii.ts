@@ -0,0 +1,138 @@
+import crypto from "crypto";
+
+// Field-level encryption for personal data such as ID card numbers.
+//
+// Values are encrypted with AES-256-GCM under the first key of
+// PII_ENCRYPTION_KEYS ("id:base64key,id:base64key"); the other keys only
+// decrypt, so a new key can be put in front and old records re-encrypted by
+// scripts/encrypt-pii.ts. Equality lookups and uniqueness use a keyed blind
+// index (HMAC-SHA256 under PII_BLIND_INDEX_KEY), which must never change
+// without recomputing every stored index.
+
+const ALGORITHM = "aes-256-gcm";
+const IV_BYTES = 12;
+const PREFIX = "enc1";
+
+interface PiiKey {
+  id: string;
+  key: Buffer;
+}
+
+// Dedicated keys only: deriving them from another secret, such as
+// JWT_SECRET, would make every stored value unreadable once that secret is
+// rotated
+function loadKeys(): PiiKey[] {
+  const configured = process.env.PII_ENCRYPTION_KEYS;
+  if (!configured) {
+    throw new Error("PII_ENCRYPTION_KEYS is not set");
+  }
+
+  return configured.split(",").map((entry) => {
+    const [id, encoded] = entry.trim().split(":");
+    const key = Buffer.from(encoded ?? "", "base64");
+    if (!id || key.length !== 32) {
+      throw new Error(
+        "PII_ENCRYPTION_KEYS entries must be id:base64 of 32 bytes"
+      );
+    }
+    return { id, key };
+  });
+}
+
+function loadBlindIndexKey() {
+  const key = Buffer.from(process.env.PII_BLIND_INDEX_KEY ?? "", "base64");
+  if (key.length < 32) {
+    throw new Error("PII_BLIND_INDEX_KEY must be base64 of at least 32 bytes");
+  }
+  return key;
+}
+
+let keys: PiiKey[] | undefined;
+let indexKey: Buffer | undefined;
+
+function piiKeys() {
+  keys ??= loadKeys();
+  return keys;
+}
+
+function blindIndexKey() {
+  indexKey ??= loadBlindIndexKey();
+  return indexKey;
+}
+
+// Loads both keys so a missing or malformed one stops the app at startup
+// instead of failing the first request that touches personal data
+export function checkPiiKeys() {
+  piiKeys();
+  blindIndexKey();
+}
+
+export function isEncrypted(value: unknown): value is string {
+  return typeof value === "string" && value.startsWith(`${PREFIX}:`);
+}
+
+// The id of the key a value was encrypted with, or null for plaintext
+export function encryptionKeyId(value: unknown) {
+  return isEncrypted(value) ? value.split(":")[1] : null;
+}
+
+export function currentKeyId() {
+  return piiKeys()[0].id;
+}
+
+export function encryptPii(plaintext: string) {
+  const { id, key } = piiKeys()[0];
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([
+    cipher.update(plaintext, "utf8"),
+    cipher.final(),
+  ]);
+
+  return [
+    PREFIX,
+    id,
+    iv.toString("base64"),
+    cipher.getAuthTag().toString("base64"),
+    ciphertext.toString("base64"),
+  ].join(":");
+}
+
+// Values written before encryption was introduced are returned unchanged
+export function decryptPii<T extends string | null | undefined>(value: T): T {
+  if (!isEncrypted(value)) return value;
+
+  const [, id, iv, tag, ciphertext] = value.split(":");
+  const entry = piiKeys().find((candidate) => candidate.id === id);
+  if (!entry) {
+    throw new Error(`Unknown PII encryption key: ${id}`);
+  }
+
+  const decipher = crypto.createDecipheriv(
+    ALGORITHM,
+    entry.key,
+    Buffer.from(iv, "base64")
+  );
+  decipher.setAuthTag(Buffer.from(tag, "base64"));
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, "base64")),
+    decipher.final(),
+  ]).toString("utf8") as T;
+}
+
+// ID card numbers are compared on their digits, so "1-2345-..." and
+// "12345..." find the same record
+export function normalizeIdcard(idcard: string) {
+  return idcard.replace(/\D/g, "");
+}
+
+export function blindIndex(value: string) {
+  return crypto
+    .createHmac("sha256", blindIndexKey())
+    .update(value)
+    .digest("hex");
+}
+
+export function idcardIndex(idcard: string) {
+  return blindIndex(normalizeIdcard(idcard));
+}
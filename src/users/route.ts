@@ -4,16 +4,39 @@ import bcrypt from "bcrypt";
 import cloudinary from "cloudinary";
 import streamifier from "streamifier";
 import dotenv from "dotenv";
-import { User } from "./model";
-import { verifyJWT } from "../../middleware/middleware";
+import { emailFilter, idcardFilter, phoneFilter, User } from "./model";
+import { normalizeIdentityFields, parsePhoneNumber } from "./validation";
+import { requirePermission, verifyJWT } from "../../middleware/middleware";
+import {
+  oneOf,
+  optional,
+  rawString,
+  string,
+  validated,
+} from "../../middleware/validate";
 import { v4 as uuidv4 } from "uuid";
+import { checkPasswordStrength } from "../auth/password";
+import { revokeUserSessions } from "../auth/session";
+import { serializeUser, UserAudience, userAudience } from "./serialize";
+import {
+  ADMIN_EDIT_BODY,
+  ADMIN_EDITABLE_FIELDS,
+  diffUser,
+  findConflictingField,
+  pickEditableFields,
+  recordUserAudit,
+  SELF_EDIT_BODY,
+  SELF_EDITABLE_FIELDS,
+} from "./edit";
+import { sendVerificationEmail } from "../auth/verification";
+import {
+  DURATION_LOCALES,
+  DurationLocale,
+  statusDurationText,
+} from "./validity";
 
 const moment = require("moment");
 
-interface MulterRequest extends Request {
-  file?: Express.Multer.File;
-}
-
 dotenv.config();
 
 export const user = express.Router();
@@ -26,14 +49,56 @@ cloudinary.v2.config({
   api_secret: process.env.CLOUDINARY_API_SECRET,
 });
 
+// ?locale= wins over Accept-Language; Thai is the default
+function requestLocale(req: Request): DurationLocale {
+  const { locale } = req.query;
+  if (DURATION_LOCALES.includes(locale as DurationLocale)) {
+    return locale as DurationLocale;
+  }
+  return (req.acceptsLanguages(...DURATION_LOCALES) || "th") as DurationLocale;
+}
+
+// The remaining status time is derived from statusEndDate on every read so
+// it never goes stale
+function withStatusDuration(
+  user: InstanceType<typeof User>,
+  audience: UserAudience,
+  viewer: { userId: string; role: string },
+  locale: DurationLocale,
+  now: Date = new Date()
+) {
+  const data = serializeUser(user, audience, viewer);
+  if (audience === "public") return data;
+
+  const duration = statusDurationText(user.statusEndDate, now, locale);
+  return {
+    ...data,
+    statusDuration: duration,
+    statusExpiration: duration,
+  };
+}
+
 /**
  * @swagger
  * /api/v1/user:
  *   get:
  *     summary: Retrieve user details
+ *     description: >
+ *       Requires the `profile:read` permission. The ID card number is masked
+ *       unless the caller has the `user:pii:read` permission.
  *     tags: [User]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - name: locale
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [th, en]
+ *         description: >
+ *           Language of statusDuration and statusExpiration. Defaults to the
+ *           Accept-Language header, then Thai.
  *     responses:
  *       200:
  *         description: User retrieved successfully.
@@ -69,6 +134,8 @@ cloudinary.v2.config({
  *                 message:
  *                   type: string
  *                   example: Invalid user ID in token.
+ *       403:
+ *         description: Missing the required permission.
  *       404:
  *         description: User not found.
  *         content:
@@ -89,48 +156,62 @@ cloudinary.v2.config({
  *         description: Internal server error.
  */
 
-user.get("/user", verifyJWT, async (req: Request, res: Response) => {
-  try {
-    const userId = req.user?.userId;
+user.get(
+  "/user",
+  verifyJWT,
+  requirePermission("profile:read"),
+  validated(
+    { query: { locale: optional(oneOf(DURATION_LOCALES)) } },
+    async (req, res) => {
+      try {
+        const userId = req.user?.userId;
+
+        if (!userId) {
+          return res.status(400).json({
+            code: "Error-01-0001",
+            status: "Error",
+            message: "Invalid user ID in token",
+          });
+        }
 
-    if (!userId) {
-      return res.status(400).json({
-        code: "Error-01-0001",
-        status: "Error",
-        message: "Invalid user ID in token",
-      });
-    }
+        const user = await User.findOne({ userId });
 
-    const user = await User.findOne({ userId });
+        if (!user) {
+          return res.status(404).json({
+            code: "Error-01-0002",
+            status: "Error",
+            message: "User not found",
+          });
+        }
 
-    if (!user) {
-      return res.status(404).json({
-        code: "Error-01-0002",
-        status: "Error",
-        message: "User not found",
-      });
+        return res.status(200).json({
+          code: "Success-01-0001",
+          status: "Success",
+          message: "User retrieved successfully",
+          data: withStatusDuration(user, "self", req.user, requestLocale(req)),
+        });
+      } catch (error) {
+        console.error("Error fetching user data:", error);
+        res.status(500).json({
+          code: "Error-03-0001",
+          status: "Error",
+          message: "Internal server error",
+        });
+      }
     }
-
-    return res.status(200).json({
-      code: "Success-01-0001",
-      status: "Success",
-      message: "User retrieved successfully",
-      data: user,
-    });
-  } catch (error) {
-    console.error("Error fetching user data:", error);
-    res.status(500).json({
-      code: "Error-03-0001",
-      status: "Error",
-      message: "Internal server error",
-    });
-  }
-});
+  )
+);
 /**
  * @swagger
  * /api/v1/users/{userId}:
  *   get:
  *     summary: Retrieve a user by ID
+ *     description: >
+ *       Requires the `profile:read` permission. Users can only read their
+ *       own record; the `user:read` permission allows reading anyone's.
+ *       Password hashes and 2FA secrets are never returned, and the ID card
+ *       number is masked unless the caller has the `user:pii:read`
+ *       permission.
  *     tags: [User]
  *     security:
  *       - bearerAuth: []
@@ -141,6 +222,15 @@ user.get("/user", verifyJWT, async (req: Request, res: Response) => {
  *         schema:
  *           type: string
  *         description: The ID of the user to retrieve
+ *       - name: locale
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [th, en]
+ *         description: >
+ *           Language of statusDuration and statusExpiration. Defaults to the
+ *           Accept-Language header, then Thai.
  *     responses:
  *       200:
  *         description: User retrieved successfully.
@@ -158,20 +248,11 @@ user.get("/user", verifyJWT, async (req: Request, res: Response) => {
  *                 data:
  *                   type: object
  *       400:
- *         description: User ID is required.
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 code:
- *                   type: string
- *                 status:
- *                   type: string
- *                 message:
- *                   type: string
+ *         $ref: '#/components/responses/InvalidRequest'
+ *       403:
+ *         description: Missing the required permission.
  *       404:
- *         description: User not found.
+ *         description: User not found, or the record belongs to another user.
  *         content:
  *           application/json:
  *             schema:
@@ -187,52 +268,75 @@ user.get("/user", verifyJWT, async (req: Request, res: Response) => {
  *         description: Internal server error.
  */
 
-user.get("/users/:userId", verifyJWT, async (req: Request, res: Response) => {
-  try {
-    const { userId } = req.params;
-
-    if (!userId) {
-      return res.status(400).json({
-        code: "Error-01-0001",
-        status: "Error",
-        message: "User ID is required",
-      });
-    }
-
-    const user = await User.findOne({ userId });
+user.get(
+  "/users/:userId",
+  verifyJWT,
+  requirePermission("profile:read"),
+  validated(
+    {
+      params: { userId: string() },
+      query: { locale: optional(oneOf(DURATION_LOCALES)) },
+    },
+    async (req, res) => {
+      try {
+        const { userId } = req.params;
+
+        // Other users' records look the same as missing ones
+        const audience = userAudience(req.user, userId);
+        const user = audience !== "public" && (await User.findOne({ userId }));
+
+        if (!user) {
+          return res.status(404).json({
+            code: "Error-01-0002",
+            status: "Error",
+            message: "User not found",
+          });
+        }
 
-    if (!user) {
-      return res.status(404).json({
-        code: "Error-01-0002",
-        status: "Error",
-        message: "User not found",
-      });
+        return res.status(200).json({
+          code: "Success-01-0001",
+          status: "Success",
+          message: "User retrieved successfully",
+          data: withStatusDuration(
+            user,
+            audience,
+            req.user,
+            requestLocale(req)
+          ),
+        });
+      } catch (error) {
+        console.error("Error fetching user data:", error);
+        res.status(500).json({
+          code: "Error-03-0001",
+          status: "Error",
+          message: "Internal server error",
+        });
+      }
     }
-
-    return res.status(200).json({
-      code: "Success-01-0001",
-      status: "Success",
-      message: "User retrieved successfully",
-      data: user,
-    });
-  } catch (error) {
-    console.error("Error fetching user data:", error);
-    res.status(500).json({
-      code: "Error-03-0001",
-      status: "Error",
-      message: "Internal server error",
-    });
-  }
-});
+  )
+);
 
 /**
  * @swagger
  * /api/v1/users:
  *   get:
  *     summary: Retrieve all users
+ *     description: >
+ *       Requires the `user:read` permission. ID card numbers are masked
+ *       unless the caller also has the `user:pii:read` permission.
  *     tags: [User]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - name: locale
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [th, en]
+ *         description: >
+ *           Language of statusDuration and statusExpiration. Defaults to the
+ *           Accept-Language header, then Thai.
  *     responses:
  *       200:
  *         description: Users retrieved successfully.
@@ -251,6 +355,8 @@ user.get("/users/:userId", verifyJWT, async (req: Request, res: Response) => {
  *                   type: array
  *                   items:
  *                     type: object
+ *       403:
+ *         description: Missing the required permission.
  *       500:
  *         description: Failed to retrieve users.
  *         content:
@@ -266,30 +372,45 @@ user.get("/users/:userId", verifyJWT, async (req: Request, res: Response) => {
  *                   type: string
  */
 
-user.get("/users", verifyJWT, async (req: Request, res: Response) => {
-  try {
-    const users = await User.find();
-    return res.status(200).json({
-      code: "Success-01-0001",
-      status: "Success",
-      message: "Users retrieved successfully",
-      data: users,
-    });
-  } catch (error) {
-    console.error("Error fetching users:", error);
-    res.status(500).json({
-      code: "Error-01-0004",
-      status: "Error",
-      message: "Failed to retrieve users",
-    });
-  }
-});
+user.get(
+  "/users",
+  verifyJWT,
+  requirePermission("user:read"),
+  validated(
+    { query: { locale: optional(oneOf(DURATION_LOCALES)) } },
+    async (req, res) => {
+      try {
+        const users = await User.find();
+        return res.status(200).json({
+          code: "Success-01-0001",
+          status: "Success",
+          message: "Users retrieved successfully",
+          data: users.map((found) =>
+            withStatusDuration(found, "admin", req.user, requestLocale(req))
+          ),
+        });
+      } catch (error) {
+        console.error("Error fetching users:", error);
+        res.status(500).json({
+          code: "Error-01-0004",
+          status: "Error",
+          message: "Failed to retrieve users",
+        });
+      }
+    }
+  )
+);
 
 /**
  * @swagger
  * /api/v1/user/updateUser:
  *   post:
- *     summary: Update a user's details
+ *     summary: Update the logged-in user's profile
+ *     description: >
+ *       Requires the `profile:update` permission. Only name, phonenumber,
+ *       company, locale and the avatar can be changed; any other field is
+ *       rejected. Email and ID card changes go through an admin, and the
+ *       password through /api/v1/auth/change-password.
  *     tags: [User]
  *     security:
  *       - bearerAuth: []
@@ -302,15 +423,20 @@ user.get("/users", verifyJWT, async (req: Request, res: Response) => {
  *             properties:
  *               userId:
  *                 type: string
- *                 description: The ID of the user to update
- *               Avatar:
+ *                 description: Optional; must be the logged-in user's ID
+ *               avatar:
  *                 type: string
  *                 format: binary
  *                 description: The avatar image file
- *               otherFields:
- *                 type: object
- *                 additionalProperties:
- *                   type: string
+ *               name:
+ *                 type: string
+ *               phonenumber:
+ *                 type: string
+ *               company:
+ *                 type: string
+ *               locale:
+ *                 type: string
+ *                 enum: [th, en]
  *     responses:
  *       200:
  *         description: User updated successfully.
@@ -328,7 +454,10 @@ user.get("/users", verifyJWT, async (req: Request, res: Response) => {
  *                 data:
  *                   type: object
  *       400:
- *         description: User ID is required.
+ *         description: >
+ *           A field that cannot be changed or an invalid value
+ *           (Error-02-0019), an invalid phone number, a phone number already in
+ *           use, or no changes.
  *         content:
  *           application/json:
  *             schema:
@@ -340,6 +469,10 @@ user.get("/users", verifyJWT, async (req: Request, res: Response) => {
  *                   type: string
  *                 message:
  *                   type: string
+ *       415:
+ *         $ref: '#/components/responses/UnsupportedMediaType'
+ *       403:
+ *         description: Missing the required permission, or another user's ID.
  *       404:
  *         description: User not found.
  *         content:
@@ -371,189 +504,429 @@ user.get("/users", verifyJWT, async (req: Request, res: Response) => {
 user.post(
   "/user/updateUser",
   verifyJWT,
+  requirePermission("profile:update"),
   upload.single("avatar"),
-  async (req: MulterRequest, res: Response) => {
-    // Log headers to confirm content type
-    console.log("Headers:", req.headers);
-
-    const contentType = req.headers["content-type"];
-
-    if (!contentType || !contentType.includes("multipart/form-data")) {
-      return res.status(400).json({
-        code: "Error-01-0001",
-        status: "Error",
-        message: "Invalid Headers",
-      });
-    }
+  validated(
+    {
+      contentType: "multipart",
+      strict: true,
+      body: { ...SELF_EDIT_BODY, userId: optional(string()) },
+      file: { field: "avatar" },
+    },
+    async (req, res) => {
+      // Log body and file
+      // console.log("Body:", req.body);
+      // console.log("File:", req.file);
+
+      try {
+        // Users only ever edit themselves; userId is still accepted from
+        // older clients as long as it is their own
+        const userId = req.user.userId;
+        if (req.body.userId && req.body.userId !== userId) {
+          return res.status(403).json({
+            code: "Error-02-0007",
+            status: "Error",
+            message: "You can only update your own profile",
+          });
+        }
+
+        const {
+          updates: updateFields,
+          error: fieldError,
+          code: fieldErrorCode,
+        } = pickEditableFields(req.body, SELF_EDITABLE_FIELDS, ["userId"]);
+        if (fieldError) {
+          return res.status(400).json({
+            code: fieldErrorCode,
+            status: "Error",
+            message: fieldError,
+          });
+        }
+
+        const user = await User.findOne({ userId });
+        if (!user) {
+          console.log("User not found:", userId);
+          return res.status(404).json({
+            code: "Error-02-0003",
+            status: "Error",
+            message: "User not found",
+          });
+        }
+
+        const conflictField = await findConflictingField(userId, updateFields);
+        if (conflictField) {
+          return res.status(400).json({
+            code: "Error-02-0009",
+            status: "Error",
+            message: `This ${conflictField} is already in use. Please check again`,
+          });
+        }
+
+        if (req.file) {
+          try {
+            const stream = streamifier.createReadStream(req.file.buffer);
+            const uploadResponse = await new Promise<any>((resolve, reject) => {
+              const uploadStream = cloudinary.v2.uploader.upload_stream(
+                {
+                  resource_type: "image",
+                  public_id: `${userId}_avatar`,
+                  folder: "UserAvatars",
+                },
+                (error, result) => {
+                  if (error) return reject(error);
+                  resolve(result);
+                }
+              );
+              stream.pipe(uploadStream);
+            });
+
+            console.log(
+              "File uploaded successfully:",
+              uploadResponse.secure_url
+            );
+            updateFields.avatar = uploadResponse.secure_url;
+          } catch (error) {
+            console.error("Error during file upload:", error);
+            return res.status(500).json({
+              code: "Error-02-0004",
+              status: "Error",
+              message: "Failed to upload image",
+            });
+          }
+        } else {
+          console.log("No file uploaded. Skipping image upload.");
+        }
+
+        const updateResponse = await User.updateOne(
+          { userId },
+          { $set: updateFields }
+        );
 
-    // Log body and file
-    // console.log("Body:", req.body);
-    // console.log("File:", req.file);
+        console.log("Update response:", updateResponse);
 
-    try {
-      const { userId, ...updateFields } = req.body;
+        if (!updateResponse.modifiedCount) {
+          return res.status(400).json({
+            code: "Error-02-0006",
+            status: "Error",
+            message: "No changes were made to the user",
+          });
+        }
 
-      if (!userId) {
-        console.log("Missing userId");
+        return res.status(200).json({
+          code: "Success-01-0003",
+          status: "Success",
+          message: "User updated successfully",
+        });
+      } catch (error) {
+        console.error("Error updating user:", error);
+        return res.status(500).json({
+          code: "Error-02-0005",
+          status: "Error",
+          message: "Failed to update user",
+        });
+      }
+    }
+  )
+);
+
+/**
+ * @swagger
+ * /api/v1/admin/users/{userId}:
+ *   post:
+ *     summary: Edit another user's record as an admin
+ *     description: >
+ *       Requires the `user:manage` permission. Only the listed fields can be
+ *       changed; any other field is rejected. Every change is written to the
+ *       user's audit log with the editor and reason. Changing the role or
+ *       email signs the user out everywhere. A changed email must be verified
+ *       again; a verification link is sent to the new address.
+ *     tags: [User]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: userId
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               email:
+ *                 type: string
+ *               phonenumber:
+ *                 type: string
+ *               idcard:
+ *                 type: string
+ *               company:
+ *                 type: string
+ *               locale:
+ *                 type: string
+ *                 enum: [th, en]
+ *               role:
+ *                 type: string
+ *                 enum: [user, instructor, admin, superadmin]
+ *               status:
+ *                 type: string
+ *                 enum: [Active, Expired]
+ *               statusStartDate:
+ *                 type: string
+ *                 format: date-time
+ *               statusEndDate:
+ *                 type: string
+ *                 format: date-time
+ *               reason:
+ *                 type: string
+ *                 description: Why the change was made, kept in the audit log
+ *     responses:
+ *       200:
+ *         description: User updated; returns the recorded changes.
+ *       400:
+ *         description: >
+ *           A field that cannot be changed or an invalid value
+ *           (Error-02-0019), an invalid email, phone number or ID card number,
+ *           a value already used by another user, a change to one's own role,
+ *           or no changes.
+ *       415:
+ *         $ref: '#/components/responses/UnsupportedMediaType'
+ *       403:
+ *         description: Missing the required permission.
+ *       404:
+ *         description: User not found.
+ *       500:
+ *         description: Internal server error.
+ */
+
+user.post(
+  "/admin/users/:userId",
+  verifyJWT,
+  requirePermission("user:manage"),
+  validated(
+    {
+      params: { userId: string() },
+      strict: true,
+      body: { ...ADMIN_EDIT_BODY, reason: optional(string()) },
+    },
+    async (req, res) => {
+      const { userId } = req.params;
+
+      const {
+        updates,
+        error: fieldError,
+        code: fieldErrorCode,
+      } = pickEditableFields(req.body, ADMIN_EDITABLE_FIELDS, ["reason"]);
+      if (fieldError) {
         return res.status(400).json({
-          code: "Error-02-0002",
+          code: fieldErrorCode,
           status: "Error",
-          message: "User ID is required",
+          message: fieldError,
         });
       }
 
-      const user = await User.findOne({ userId });
-      if (!user) {
-        console.log("User not found:", userId);
-        return res.status(404).json({
-          code: "Error-02-0003",
+      if (userId === req.user.userId && "role" in updates) {
+        return res.status(400).json({
+          code: "Error-02-0010",
           status: "Error",
-          message: "User not found",
+          message: "You cannot change your own role",
         });
       }
 
-      if (req.file) {
-        try {
-          const stream = streamifier.createReadStream(req.file.buffer);
-          const uploadResponse = await new Promise<any>((resolve, reject) => {
-            const uploadStream = cloudinary.v2.uploader.upload_stream(
-              {
-                resource_type: "image",
-                public_id: `${userId}_avatar`,
-                folder: "UserAvatars",
-              },
-              (error, result) => {
-                if (error) return reject(error);
-                resolve(result);
-              }
-            );
-            stream.pipe(uploadStream);
+      try {
+        const user = await User.findOne({ userId });
+        if (!user) {
+          return res.status(404).json({
+            code: "Error-02-0003",
+            status: "Error",
+            message: "User not found",
           });
+        }
 
-          console.log("File uploaded successfully:", uploadResponse.secure_url);
-          updateFields.avatar = uploadResponse.secure_url;
-        } catch (error) {
-          console.error("Error during file upload:", error);
-          return res.status(500).json({
-            code: "Error-02-0004",
+        const conflictField = await findConflictingField(userId, updates);
+        if (conflictField) {
+          return res.status(400).json({
+            code: "Error-02-0009",
             status: "Error",
-            message: "Failed to upload image",
+            message: `This ${conflictField} is already in use. Please check again`,
           });
         }
-      } else {
-        console.log("No file uploaded. Skipping image upload.");
-      }
 
-      console.log("Update fields:", updateFields);
+        const changes = diffUser(user, updates);
+        if (!changes.length) {
+          return res.status(400).json({
+            code: "Error-02-0006",
+            status: "Error",
+            message: "No changes were made to the user",
+          });
+        }
 
-      const updateResponse = await User.updateOne(
-        { userId },
-        { $set: updateFields }
-      );
+        for (const { field } of changes) {
+          user.set(field, updates[field]);
+        }
 
-      console.log("Update response:", updateResponse);
+        // The new address counts as unverified until the user follows the link
+        const emailChanged = changes.some(({ field }) => field === "email");
+        if (emailChanged && user.emailVerifiedAt) {
+          changes.push({
+            field: "emailVerifiedAt",
+            from: user.emailVerifiedAt,
+            to: null,
+          });
+          user.emailVerifiedAt = null;
+        }
+        await user.save();
+
+        await recordUserAudit(
+          userId,
+          req.user.userId,
+          "admin-edit",
+          changes,
+          req.body.reason
+        );
+
+        // Access tokens carry the role and email, so old ones must not live on
+        if (
+          changes.some(({ field }) => field === "role" || field === "email")
+        ) {
+          await revokeUserSessions(userId, "admin-edit");
+        }
 
-      if (!updateResponse.modifiedCount) {
-        return res.status(400).json({
-          code: "Error-02-0006",
+        if (emailChanged) {
+          try {
+            await sendVerificationEmail(user);
+          } catch (error) {
+            console.error("Error sending verification email:", error);
+          }
+        }
+
+        return res.status(200).json({
+          code: "Success-01-0004",
+          status: "Success",
+          message: "User updated successfully",
+          data: { changes },
+        });
+      } catch (error) {
+        console.error("Error editing user:", error);
+        return res.status(500).json({
+          code: "Error-03-0001",
           status: "Error",
-          message: "No changes were made to the user",
+          message: "Internal server error",
         });
       }
-
-      return res.status(200).json({
-        code: "Success-01-0003",
-        status: "Success",
-        message: "User updated successfully",
-      });
-    } catch (error) {
-      console.error("Error updating user:", error);
-      return res.status(500).json({
-        code: "Error-02-0005",
-        status: "Error",
-        message: "Failed to update user",
-      });
     }
-  }
+  )
 );
 
 // Register Route
-user.post("/createAccount", async (req: Request, res: Response) => {
-  const contentType = req.headers["content-type"];
-
-  console.log(req.headers);
-  console.log(req.body);
-
-  if (!contentType || contentType !== "application/json") {
-    return res.status(401).json({
-      code: "Error-01-0001",
-      status: "Error",
-      message: "Invalid Header",
-    });
-  }
-
-  const { name, email, phonenumber, idcard, company, password } = req.body;
+user.post(
+  "/createAccount",
+  validated(
+    {
+      body: {
+        name: string(),
+        email: string(),
+        phonenumber: string(),
+        idcard: string(),
+        company: string(),
+        password: rawString(),
+      },
+    },
+    async (req, res) => {
+      // Stored in canonical form so formatting differences can't create a
+      // second account for the same person
+      const { values, error: identityError } = normalizeIdentityFields(
+        req.body
+      );
+      const { name, email, phonenumber, idcard, company, password } = values;
 
-  if (!name || !email || !phonenumber || !idcard || !company || !password) {
-    return res.status(400).json({
-      code: "Error-02-0001",
-      status: "Error",
-      message: "Missing required fields.",
-    });
-  }
+      if (identityError) {
+        return res.status(400).json({
+          code: identityError.code,
+          status: "Error",
+          message: identityError.message,
+        });
+      }
 
-  try {
-    // Check if idcard, email, or phonenumber already exists
-    const existingUser = await User.findOne({
-      $or: [{ email }, { phonenumber }, { idcard }],
-    });
-
-    if (existingUser) {
-      let conflictField = "";
-
-      if (existingUser.email === email) {
-        conflictField = "email";
-      } else if (existingUser.phonenumber === phonenumber) {
-        conflictField = "phonenumber";
-      } else if (existingUser.idcard === idcard) {
-        conflictField = "idcard";
+      const passwordError = checkPasswordStrength(password, { email, name });
+      if (passwordError) {
+        return res.status(400).json({
+          code: "Error-01-0009",
+          status: "Error",
+          message: passwordError,
+        });
       }
 
-      return res.status(400).json({
-        code: "Error-01-0002",
-        status: "Error",
-        message: `This ${conflictField} is already in use. Please check again`,
-      });
-    }
+      try {
+        // Check if idcard, email, or phonenumber already exists
+        const existingUser = await User.findOne({
+          $or: [
+            emailFilter(email),
+            phoneFilter(phonenumber),
+            ...idcardFilter(idcard).$or,
+          ],
+        });
 
-    const hashedPassword = await bcrypt.hash(password, 10);
-
-    const userId = uuidv4();
-
-    const newUser = new User({
-      userId: userId,
-      name,
-      email,
-      phonenumber,
-      idcard,
-      company,
-      password: hashedPassword,
-      role: "user",
-      status: "Active",
-    });
-
-    await newUser.save();
-    res.status(200).json({
-      code: "Success-01-0002",
-      status: "ok",
-      message: "User registered successfully",
-    });
-  } catch (error) {
-    console.error("Error registering user:", error);
-    res.status(500).json({
-      code: "Error-03-0001",
-      status: "Error",
-      message: "Internal server error",
-    });
-  }
-});
+        if (existingUser) {
+          let conflictField = "";
+
+          if (existingUser.email.toLowerCase() === email) {
+            conflictField = "email";
+          } else if (
+            parsePhoneNumber(existingUser.phonenumber) === phonenumber
+          ) {
+            conflictField = "phonenumber";
+          } else {
+            conflictField = "idcard";
+          }
+
+          return res.status(400).json({
+            code: "Error-01-0002",
+            status: "Error",
+            message: `This ${conflictField} is already in use. Please check again`,
+          });
+        }
+
+        const hashedPassword = await bcrypt.hash(password, 10);
+
+        const userId = uuidv4();
+
+        const newUser = new User({
+          userId: userId,
+          name,
+          email,
+          phonenumber,
+          idcard,
+          company,
+          password: hashedPassword,
+          role: "user",
+          status: "Active",
+        });
+
+        await newUser.save();
+
+        try {
+          await sendVerificationEmail(newUser);
+        } catch (error) {
+          console.error("Error sending verification email:", error);
+        }
+        res.status(200).json({
+          code: "Success-01-0002",
+          status: "ok",
+          message: "User registered successfully",
+        });
+      } catch (error) {
+        console.error("Error registering user:", error);
+        res.status(500).json({
+          code: "Error-03-0001",
+          status: "Error",
+          message: "Internal server error",
+        });
+      }
+    }
+  )
+);
@@ -0,0 +1,88 @@
+import { hasPermission } from "../../middleware/middleware";
+import { decryptPii } from "./pii";
+
+// Who a user record is being shown to
+export type UserAudience = "self" | "admin" | "public";
+
+interface Viewer {
+  userId: string;
+  role: string;
+}
+
+const PUBLIC_FIELDS = ["userId", "name", "avatar"] as const;
+const SELF_FIELDS = [
+  ...PUBLIC_FIELDS,
+  "email",
+  "phonenumber",
+  "idcard",
+  "company",
+  "locale",
+  "emailVerifiedAt",
+  "trainingInfo",
+  "statusStartDate",
+  "statusEndDate",
+  "status",
+] as const;
+const ADMIN_FIELDS = [...SELF_FIELDS, "role"] as const;
+
+const AUDIENCE_FIELDS: Record<UserAudience, readonly string[]> = {
+  public: PUBLIC_FIELDS,
+  self: SELF_FIELDS,
+  admin: ADMIN_FIELDS,
+};
+
+// Keeps the last four digits, e.g. "*********0123"
+export function maskIdcard(idcard?: string | null) {
+  if (!idcard) return idcard;
+  const visible = idcard.slice(-4);
+  return "*".repeat(Math.max(idcard.length - visible.length, 0)) + visible;
+}
+
+// Only roles that handle ID checks see ID card numbers in full
+export function canReadIdcard(viewer: Viewer) {
+  return hasPermission(viewer.role, "user:pii:read");
+}
+
+export function userAudience(viewer: Viewer, userId: string): UserAudience {
+  if (hasPermission(viewer.role, "user:read")) return "admin";
+  if (viewer.userId === userId) return "self";
+  return "public";
+}
+
+// Copies only the fields the audience may see. Works from an allowlist, so
+// fields added to the model later (hashes, secrets) stay private by default.
+export function serializeUser(
+  user: { toObject?: () => any } & Record<string, any>,
+  audience: UserAudience,
+  viewer: Viewer
+) {
+  const source = typeof user.toObject === "function" ? user.toObject() : user;
+  const data: Record<string, any> = {};
+
+  for (const field of AUDIENCE_FIELDS[audience]) {
+    if (source[field] !== undefined) data[field] = source[field];
+  }
+
+  if (audience === "admin") {
+    data.twoFactorEnabled = !!source.twoFactor?.enabled;
+  }
+  if ("idcard" in data && !canReadIdcard(viewer)) {
+    data.idcard = maskIdcard(data.idcard);
+  }
+
+  return data;
+}
+
+// The copy of a user kept on a course (registrants, waitlists), shown to
+// course staff
+export function serializeRegistrant(
+  registrant: Record<string, any>,
+  viewer: Viewer
+) {
+  const { _id, ...data } = registrant;
+  if (data.idcard !== undefined) {
+    const idcard = decryptPii(data.idcard);
+    data.idcard = canReadIdcard(viewer) ? idcard : maskIdcard(idcard);
+  }
+  return data;
+}
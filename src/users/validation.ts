@@ -0,0 +1,112 @@
+import { normalizeIdcard } from "./pii";
+
+// Checks and canonical forms for the fields that identify a user. Values are
+// stored normalized so "1-2345-67890-12-1" and "1234567890121", or
+// "081-234-5678" and "+66812345678", can never belong to two accounts.
+
+export interface ValidationError {
+  code: string;
+  message: string;
+}
+
+export const VALIDATION_ERRORS: Record<string, ValidationError> = {
+  idcard: {
+    code: "Error-02-0016",
+    message:
+      "Invalid ID card number. It must be 13 digits with a valid check digit.",
+  },
+  phonenumber: {
+    code: "Error-02-0017",
+    message: "Invalid phone number. Use a Thai number such as 081-234-5678.",
+  },
+  email: {
+    code: "Error-02-0018",
+    message: "Invalid email address.",
+  },
+};
+
+const MAX_EMAIL_LENGTH = 254;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@.]+(\.[^\s@.]+)+$/;
+
+// Mobile numbers are 9 digits after the country code, landlines 8
+const THAI_MOBILE_PATTERN = /^[689]\d{8}$/;
+const THAI_LANDLINE_PATTERN = /^[2-7]\d{7}$/;
+
+// The 13th digit is (11 - sum of the first 12 digits weighted 13..2) mod 11,
+// keeping only the last digit
+export function isValidThaiIdcard(idcard: string) {
+  if (!/^\d{13}$/.test(idcard)) return false;
+
+  let sum = 0;
+  for (let i = 0; i < 12; i++) {
+    sum += Number(idcard[i]) * (13 - i);
+  }
+  return (11 - (sum % 11)) % 10 === Number(idcard[12]);
+}
+
+// The 13 digits of a valid ID card number, or null
+export function parseIdcard(value: unknown) {
+  if (typeof value !== "string") return null;
+  const idcard = normalizeIdcard(value);
+  return isValidThaiIdcard(idcard) ? idcard : null;
+}
+
+// A Thai phone number in E.164 ("+66812345678"), or null. Accepts the local
+// form with a leading 0, +66 and 0066, with spaces, dashes, dots or brackets.
+export function parsePhoneNumber(value: unknown) {
+  if (typeof value !== "string") return null;
+
+  let digits = value.trim().replace(/[\s\-.()]/g, "");
+  if (digits.startsWith("+")) {
+    digits = digits.slice(1);
+  } else if (digits.startsWith("00")) {
+    digits = digits.slice(2);
+  } else if (digits.startsWith("0")) {
+    digits = `66${digits.slice(1)}`;
+  }
+  if (!/^66\d+$/.test(digits)) return null;
+
+  // "+66 0812345678" is a common mix of both forms
+  const national = digits.slice(2).replace(/^0/, "");
+  if (
+    !THAI_MOBILE_PATTERN.test(national) &&
+    !THAI_LANDLINE_PATTERN.test(national)
+  ) {
+    return null;
+  }
+  return `+66${national}`;
+}
+
+// A trimmed, lowercased email address, or null
+export function parseEmail(value: unknown) {
+  if (typeof value !== "string") return null;
+  const email = value.trim().toLowerCase();
+  if (email.length > MAX_EMAIL_LENGTH || !EMAIL_PATTERN.test(email)) {
+    return null;
+  }
+  return email;
+}
+
+const PARSERS: Record<string, (value: unknown) => string | null> = {
+  idcard: parseIdcard,
+  phonenumber: parsePhoneNumber,
+  email: parseEmail,
+};
+
+// Normalizes whichever of idcard, phonenumber and email are present in
+// `fields`, stopping at the first invalid one. Other fields are copied as is.
+export function normalizeIdentityFields<T extends Record<string, any>>(
+  fields: T
+): { values: T; error?: ValidationError } {
+  const values: Record<string, any> = { ...fields };
+
+  for (const [field, parse] of Object.entries(PARSERS)) {
+    if (!(field in fields)) continue;
+    const value = parse(fields[field]);
+    if (value === null) {
+      return { values: values as T, error: VALIDATION_ERRORS[field] };
+    }
+    values[field] = value;
+  }
+  return { values: values as T };
+}
@@ -0,0 +1,184 @@
+import {
+  addMonths,
+  applyCourseCredit,
+  formatDuration,
+  remainingDuration,
+  statusDurationText,
+  ValidityRules,
+} from "./validity";
+
+const RULES: ValidityRules = {
+  initialMonths: 12,
+  extensionMonths: 6,
+  maxMonths: 24,
+  minCreditHours: 6,
+};
+
+function utc(value: string) {
+  return new Date(`${value}T00:00:00.000Z`);
+}
+
+describe("addMonths", () => {
+  it("clamps to the last day of a shorter month", () => {
+    expect(addMonths(utc("2024-01-31"), 1)).toEqual(utc("2024-02-29"));
+    expect(addMonths(utc("2023-01-31"), 1)).toEqual(utc("2023-02-28"));
+    expect(addMonths(utc("2024-05-31"), 1)).toEqual(utc("2024-06-30"));
+  });
+
+  it("rolls over into the next year", () => {
+    expect(addMonths(utc("2024-11-30"), 3)).toEqual(utc("2025-02-28"));
+    expect(addMonths(utc("2024-06-15"), 24)).toEqual(utc("2026-06-15"));
+  });
+
+  it("subtracts months", () => {
+    expect(addMonths(utc("2024-03-31"), -1)).toEqual(utc("2024-02-29"));
+    expect(addMonths(utc("2024-01-15"), -1)).toEqual(utc("2023-12-15"));
+  });
+
+  it("keeps the time of day", () => {
+    expect(addMonths(new Date("2024-01-31T13:45:00Z"), 1)).toEqual(
+      new Date("2024-02-29T13:45:00Z")
+    );
+  });
+});
+
+describe("applyCourseCredit", () => {
+  const now = utc("2024-05-10");
+
+  it("starts a new period for a user without a status", () => {
+    expect(applyCourseCredit({}, 6, now, RULES)).toEqual({
+      statusStartDate: now,
+      statusEndDate: utc("2025-05-10"),
+    });
+  });
+
+  it("starts a new period once the status has lapsed", () => {
+    const lapsed = {
+      statusStartDate: utc("2022-01-01"),
+      statusEndDate: utc("2024-01-01"),
+    };
+    expect(applyCourseCredit(lapsed, 6, now, RULES)).toEqual({
+      statusStartDate: now,
+      statusEndDate: utc("2025-05-10"),
+    });
+  });
+
+  it("treats a status ending right now as lapsed", () => {
+    const ending = {
+      statusStartDate: utc("2023-05-10"),
+      statusEndDate: now,
+    };
+    expect(applyCourseCredit(ending, 6, now, RULES)).toEqual({
+      statusStartDate: now,
+      statusEndDate: utc("2025-05-10"),
+    });
+  });
+
+  it("extends an active status from its end date", () => {
+    const active = {
+      statusStartDate: utc("2024-01-01"),
+      statusEndDate: utc("2025-01-01"),
+    };
+    expect(applyCourseCredit(active, 6, now, RULES)).toEqual({
+      statusStartDate: utc("2024-01-01"),
+      statusEndDate: utc("2025-07-01"),
+    });
+  });
+
+  it("caps the end date at maxMonths from the start of the period", () => {
+    const active = {
+      statusStartDate: utc("2023-01-01"),
+      statusEndDate: utc("2024-10-01"),
+    };
+    expect(applyCourseCredit(active, 6, now, RULES)).toEqual({
+      statusStartDate: utc("2023-01-01"),
+      statusEndDate: utc("2025-01-01"),
+    });
+  });
+
+  it("gives no credit for courses shorter than minCreditHours", () => {
+    const active = {
+      statusStartDate: utc("2024-01-01"),
+      statusEndDate: utc("2025-01-01"),
+    };
+    expect(applyCourseCredit(active, 5.5, now, RULES)).toBe(active);
+    expect(applyCourseCredit({}, 5, now, RULES)).toEqual({});
+    expect(applyCourseCredit(active, 6, now, RULES).statusEndDate).toEqual(
+      utc("2025-07-01")
+    );
+  });
+});
+
+describe("remainingDuration", () => {
+  it("is zero once the end has passed", () => {
+    const now = utc("2024-05-10");
+    const zero = { years: 0, months: 0, days: 0 };
+    expect(remainingDuration(utc("2024-05-09"), now)).toEqual(zero);
+    expect(remainingDuration(now, now)).toEqual(zero);
+  });
+
+  it("counts whole days only", () => {
+    const now = utc("2024-05-10");
+    expect(remainingDuration(new Date(now.getTime() + 1), now)).toEqual({
+      years: 0,
+      months: 0,
+      days: 0,
+    });
+  });
+
+  it("counts calendar months across month ends", () => {
+    expect(remainingDuration(utc("2024-02-29"), utc("2024-01-31"))).toEqual({
+      years: 0,
+      months: 1,
+      days: 0,
+    });
+    expect(remainingDuration(utc("2024-02-10"), utc("2024-01-20"))).toEqual({
+      years: 0,
+      months: 0,
+      days: 21,
+    });
+  });
+
+  it("splits years, months and days", () => {
+    expect(remainingDuration(utc("2026-03-20"), utc("2024-01-15"))).toEqual({
+      years: 2,
+      months: 2,
+      days: 5,
+    });
+  });
+});
+
+describe("formatDuration", () => {
+  it("formats in English with plurals", () => {
+    expect(formatDuration({ years: 1, months: 0, days: 2 }, "en")).toBe(
+      "1 year 0 months 2 days"
+    );
+    expect(formatDuration({ years: 2, months: 1, days: 1 }, "en")).toBe(
+      "2 years 1 month 1 day"
+    );
+  });
+
+  it("formats in Thai", () => {
+    expect(formatDuration({ years: 1, months: 0, days: 2 }, "th")).toBe(
+      "1 ปี 0 เดือน 2 วัน"
+    );
+  });
+});
+
+describe("statusDurationText", () => {
+  const now = utc("2024-05-10");
+
+  it("is undefined for users without a status", () => {
+    expect(statusDurationText(undefined, now, "en")).toBeUndefined();
+    expect(statusDurationText(null, now, "th")).toBeUndefined();
+  });
+
+  it("formats the time left", () => {
+    expect(statusDurationText(utc("2025-06-12"), now, "en")).toBe(
+      "1 year 1 month 2 days"
+    );
+    expect(statusDurationText(utc("2024-05-01"), now, "th")).toBe(
+      "0 ปี 0 เดือน 0 วัน"
+    );
+  });
+});
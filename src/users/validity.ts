@@ -0,0 +1,132 @@
+// Rules for how long a user's status stays valid. Everything in this module
+// is pure: callers pass in the current time and the rules to apply.
+
+export interface ValidityRules {
+  initialMonths: number; // validity granted by the first approved course, or after lapsing
+  extensionMonths: number; // added by every further approved course
+  maxMonths: number; // the end date never goes past statusStartDate + maxMonths
+  minCreditHours: number; // shorter courses do not count towards validity
+}
+
+export const VALIDITY_RULES: ValidityRules = {
+  initialMonths: Number(process.env.VALIDITY_INITIAL_MONTHS ?? 24),
+  extensionMonths: Number(process.env.VALIDITY_EXTENSION_MONTHS ?? 12),
+  maxMonths: Number(process.env.VALIDITY_MAX_MONTHS ?? 24),
+  minCreditHours: Number(process.env.VALIDITY_MIN_CREDIT_HOURS ?? 0),
+};
+
+export interface Validity {
+  statusStartDate: Date;
+  statusEndDate: Date;
+}
+
+function daysInMonth(year: number, month: number) {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+// Calendar month addition that clamps to the end of shorter months, so
+// 31 January + 1 month is 28/29 February rather than early March
+export function addMonths(date: Date, months: number) {
+  const totalMonths = date.getUTCMonth() + months;
+  const year = date.getUTCFullYear() + Math.floor(totalMonths / 12);
+  const month = ((totalMonths % 12) + 12) % 12;
+
+  const result = new Date(date);
+  result.setUTCFullYear(
+    year,
+    month,
+    Math.min(date.getUTCDate(), daysInMonth(year, month))
+  );
+  return result;
+}
+
+// Validity after the user completes a course of `courseHours`. Returns the
+// current validity unchanged when the course does not earn credit.
+//
+// A user without a status, or whose status has lapsed, starts a new period
+// of initialMonths. An active status is extended by extensionMonths, capped
+// at maxMonths from the start of the period.
+export function applyCourseCredit(
+  current: Partial<Validity>,
+  courseHours: number,
+  now: Date,
+  rules: ValidityRules = VALIDITY_RULES
+): Partial<Validity> {
+  if (courseHours < rules.minCreditHours) {
+    return current;
+  }
+
+  const { statusStartDate, statusEndDate } = current;
+  if (!statusStartDate || !statusEndDate || statusEndDate <= now) {
+    return {
+      statusStartDate: now,
+      statusEndDate: addMonths(now, rules.initialMonths),
+    };
+  }
+
+  const extended = addMonths(statusEndDate, rules.extensionMonths);
+  const cap = addMonths(statusStartDate, rules.maxMonths);
+  return {
+    statusStartDate,
+    statusEndDate: extended > cap ? cap : extended,
+  };
+}
+
+export interface Duration {
+  years: number;
+  months: number;
+  days: number;
+}
+
+// Whole years, months and days from `now` until `end`, counted on the
+// calendar; zero once `end` has passed
+export function remainingDuration(end: Date, now: Date): Duration {
+  if (end <= now) {
+    return { years: 0, months: 0, days: 0 };
+  }
+
+  let months =
+    (end.getUTCFullYear() - now.getUTCFullYear()) * 12 +
+    (end.getUTCMonth() - now.getUTCMonth());
+  if (addMonths(now, months) > end) {
+    months -= 1;
+  }
+
+  const days = Math.floor(
+    (end.getTime() - addMonths(now, months).getTime()) / (24 * 60 * 60 * 1000)
+  );
+
+  return { years: Math.floor(months / 12), months: months % 12, days };
+}
+
+export const DURATION_LOCALES = ["th", "en"] as const;
+export type DurationLocale = (typeof DURATION_LOCALES)[number];
+
+function plural(count: number, unit: string) {
+  return `${count} ${unit}${count === 1 ? "" : "s"}`;
+}
+
+export function formatDuration(duration: Duration, locale: DurationLocale) {
+  const { years, months, days } = duration;
+
+  if (locale === "en") {
+    return [
+      plural(years, "year"),
+      plural(months, "month"),
+      plural(days, "day"),
+    ].join(" ");
+  }
+  return `${years} ปี ${months} เดือน ${days} วัน`;
+}
+
+// Human-readable time left on a status, or undefined for users without one
+export function statusDurationText(
+  statusEndDate: Date | null | undefined,
+  now: Date,
+  locale: DurationLocale
+) {
+  if (!statusEndDate) {
+    return undefined;
+  }
+  return formatDuration(remainingDuration(statusEndDate, now), locale);
+}